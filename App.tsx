@@ -3,12 +3,15 @@ import { useEffect, useMemo, useRef, useState } from 'react';
 import {
   AppState,
   AppStateStatus,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
   Platform,
   Pressable,
   ScrollView,
   StatusBar,
   StyleSheet,
   Text,
+  TextInput,
   View,
 } from 'react-native';
 import { SafeAreaProvider, SafeAreaView } from 'react-native-safe-area-context';
@@ -16,68 +19,168 @@ import { SafeAreaProvider, SafeAreaView } from 'react-native-safe-area-context';
 import {
   createFareRuntime,
   DEFAULT_FARE_PRESET,
-  FARE_PRESETS,
+  FARE_MODEL_LABELS,
+  FareModel,
+  FarePreset,
+  formatMinuteOfDay,
   formatYen,
+  getActiveSurcharge,
   getPresetById,
+  splitAtSurchargeBoundaries,
   updateFareBySegment,
 } from './src/lib/fare';
-import { distanceKmBetween, formatDuration } from './src/lib/geo';
+import {
+  drainBackgroundSamples,
+  requestBackgroundLocationPermission,
+  startBackgroundLocationUpdates,
+  stopBackgroundLocationUpdates,
+} from './src/lib/backgroundLocation';
+import {
+  BACKUP_PART_LABELS,
+  BackupInspection,
+  BackupPart,
+  createBackup,
+  inspectBackup,
+  listBackupFiles,
+  restoreBackup,
+} from './src/lib/backup';
+import { CsvColumnId, CsvRowMode } from './src/lib/csvExport';
+import {
+  applyDiscounts,
+  createCouponRule,
+  describeDiscountRule,
+  DISCOUNT_RULE_CATALOG,
+  DiscountRule,
+} from './src/lib/discounts';
+import {
+  createExtraCharge,
+  EXTRA_CHARGE_LABELS,
+  ExtraCharge,
+  ExtraChargeCategory,
+  getRideTotalYen,
+  sumExtraCharges,
+} from './src/lib/extraCharges';
+import { DISTANCE_METHOD_LABELS, DistanceMethod, formatDuration } from './src/lib/geo';
+import { GPS_FILTER_LABELS, GpsFilterKind } from './src/lib/gpsFilter';
 import {
   appendDriveHistory,
+  buildRideId,
   clearSessionSnapshot,
   DriveHistoryItem,
+  exportDriveHistoryCsv,
+  exportDriveHistoryGeoJson,
+  exportDriveHistoryGpx,
   exportDriveHistoryJson,
-  loadDriveHistory,
+  isSimulatedRide,
+  annotateDriveHistoryItem,
+  ANNOTATION_FIELD_LABELS,
+  deleteDriveHistoryItem,
+  HISTORY_AUDIT_ACTION_LABELS,
+  HISTORY_PAGE_SIZE,
+  HistoryAnnotations,
+  HistoryCursor,
+  loadDriveHistoryPage,
   loadSessionSnapshot,
+  migrateStoredData,
   PauseLog,
+  RecoveryGap,
+  RideSource,
   saveSessionSnapshot,
   SessionEvent,
   SessionSnapshot,
+  undoDeleteDriveHistoryItem,
 } from './src/lib/history';
+import {
+  applyHistoryImport,
+  HistoryImportPlan,
+  listImportableHistoryFiles,
+  planHistoryImport,
+} from './src/lib/historyImport';
+import {
+  DEFAULT_HISTORY_QUERY,
+  HistoryQuery,
+  isDefaultHistoryQuery,
+  searchDriveHistory,
+} from './src/lib/historyQuery';
+import {
+  BillingMode,
+  createPipelineState,
+  getDesiredLocationProfile,
+  LocationProfile,
+  LocationSample,
+  MeterPipelineState,
+  processLocationSample,
+  resetSampleCursor,
+  SampleOutcome,
+  toLocationSample,
+} from './src/lib/pipeline';
+import {
+  createCustomPreset,
+  CustomFarePreset,
+  getSelectablePresets,
+  isBuiltInPresetId,
+  loadCustomPresets,
+  markCustomPresetDeleted,
+  saveCustomPresets,
+  upsertCustomPreset,
+} from './src/lib/presets';
+import {
+  estimateFareUnderRevision,
+  findNextRevisionBoundaryMs,
+  formatRevisionPeriod,
+  getPresetRevisions,
+  resolvePresetAt,
+} from './src/lib/revisions';
+import {
+  AppSettings,
+  BACKGROUND_BEHAVIOR_LABELS,
+  BackgroundBehavior,
+  DEFAULT_APP_SETTINGS,
+  loadAppSettings,
+  saveAppSettings,
+} from './src/lib/settings';
+import {
+  DEFAULT_SCENARIO,
+  generateScenarioSamples,
+  getScenarioTotals,
+  parseScenario,
+} from './src/lib/scenario';
+import {
+  buildReceiptText,
+  formatReceiptNumber,
+  issueReceipt,
+  loadNextReceiptNumber,
+} from './src/lib/receipt';
+import { ImportedTrace, importTraceFile, listImportableTraceFiles } from './src/lib/traceImport';
+import {
+  formatPlaybackSpeed,
+  PLAYBACK_SPEEDS,
+  startTracePlayer,
+  TracePlayer,
+} from './src/lib/tracePlayer';
 import { LatLng } from './src/lib/types';
+import { BackupPanel } from './src/components/BackupPanel';
+import { CsvExportPanel } from './src/components/CsvExportPanel';
+import { DiscountPanel } from './src/components/DiscountPanel';
+import { ExtraChargePanel } from './src/components/ExtraChargePanel';
+import { HistoryFilterPanel } from './src/components/HistoryFilterPanel';
+import { HistoryImportPanel } from './src/components/HistoryImportPanel';
+import { HistoryItemEditor } from './src/components/HistoryItemEditor';
+import { PresetEditor } from './src/components/PresetEditor';
+import { PresetPicker } from './src/components/PresetPicker';
 
 type PermissionState = 'unknown' | 'granted' | 'denied';
-type BillingMode = 'distance' | 'time' | 'unknown';
 type SessionState = 'idle' | 'running' | 'paused';
-type LocationProfile = 'high' | 'balanced';
+type PresetEditorState = { mode: 'create' | 'edit'; initial: FarePreset };
 
 const LOCATION_UPDATE_INTERVAL_MS = 1000;
 const EDGE_PADDING = 16;
 const LANDSCAPE_SIDE_PADDING = 22;
-const MAX_REASONABLE_SPEED_KMH = 180;
-const POOR_ACCURACY_METERS = 80;
-const MAX_DISTANCE_FACTOR_KM_PER_SEC = (MAX_REASONABLE_SPEED_KMH / 3600) * 1.5;
-const PROFILE_SWITCH_TO_BALANCED_KMH = 12;
-const PROFILE_SWITCH_TO_HIGH_KMH = 20;
-
-function getNoisySampleReason(params: {
-  deltaKm: number;
-  deltaSeconds: number;
-  speedKmh: number;
-  accuracyMeters: number | null;
-}): string | null {
-  const { deltaKm, deltaSeconds, speedKmh, accuracyMeters } = params;
-
-  if (!Number.isFinite(deltaKm) || !Number.isFinite(deltaSeconds) || deltaSeconds <= 0) {
-    return 'invalid_delta';
-  }
-
-  if (speedKmh > MAX_REASONABLE_SPEED_KMH) {
-    return 'speed_spike';
-  }
-
-  const dynamicDistanceCap = MAX_DISTANCE_FACTOR_KM_PER_SEC * deltaSeconds + 0.02;
-  if (deltaKm > dynamicDistanceCap) {
-    return 'distance_jump';
-  }
-
-  if (accuracyMeters !== null && accuracyMeters > POOR_ACCURACY_METERS && deltaKm > 0.03) {
-    return 'poor_accuracy_jump';
-  }
-
-  return null;
-}
-
+// Distance from the bottom of the right pane (px) at which the next history page is loaded.
+const HISTORY_LOAD_MORE_THRESHOLD = 200;
+const HISTORY_SEARCH_DEBOUNCE_MS = 300;
+// Longest single wait for the next tariff revision; setTimeout overflows past about 24 days.
+const TARIFF_CLOCK_MAX_WAIT_MS = 24 * 60 * 60 * 1000;
 function formatLatLng(point: LatLng | null): string {
   if (!point) return '-';
   return `${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`;
@@ -87,55 +190,139 @@ export default function App() {
   const [permission, setPermission] = useState<PermissionState>('unknown');
   const [sessionState, setSessionState] = useState<SessionState>('idle');
   const [selectedPresetId, setSelectedPresetId] = useState(DEFAULT_FARE_PRESET.id);
+  const [fareModel, setFareModel] = useState<FareModel>(DEFAULT_FARE_PRESET.fareModel);
+  const [gpsFilterKind, setGpsFilterKind] = useState<GpsFilterKind>('threshold');
+  const [distanceMethod, setDistanceMethod] = useState<DistanceMethod>('spherical');
+  const [customPresets, setCustomPresets] = useState<CustomFarePreset[]>([]);
+  const [presetEditor, setPresetEditor] = useState<PresetEditorState | null>(null);
   const [startedAtMs, setStartedAtMs] = useState<number | null>(null);
+  const [tariffClockMs, setTariffClockMs] = useState(() => Date.now());
   const [elapsedMs, setElapsedMs] = useState(0);
   const [distanceKm, setDistanceKm] = useState(0);
+  const [bridgedDistanceKm, setBridgedDistanceKm] = useState(0);
   const [speedKmh, setSpeedKmh] = useState<number | null>(null);
   const [fareYen, setFareYen] = useState(DEFAULT_FARE_PRESET.baseFareYen);
+  // Added by hand on top of the metered fareYen.
+  const [extraCharges, setExtraCharges] = useState<ExtraCharge[]>([]);
+  // Starts as the preset's rules; applied to fareYen for display and when the ride is saved.
+  const [discountRules, setDiscountRules] = useState<DiscountRule[]>([]);
   const [billingMode, setBillingMode] = useState<BillingMode>('unknown');
+  const [surchargeLabel, setSurchargeLabel] = useState<string | null>(null);
   const [acceptedSamples, setAcceptedSamples] = useState(0);
   const [filteredSamples, setFilteredSamples] = useState(0);
   const [historyItems, setHistoryItems] = useState<DriveHistoryItem[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<HistoryCursor | null>(null);
+  const [historyTotalCount, setHistoryTotalCount] = useState(0);
+  const [historyFilterOpen, setHistoryFilterOpen] = useState(false);
+  const [csvPanelOpen, setCsvPanelOpen] = useState(false);
+  const [importPanelOpen, setImportPanelOpen] = useState(false);
+  const [importFiles, setImportFiles] = useState<string[]>([]);
+  const [importPlan, setImportPlan] = useState<HistoryImportPlan | null>(null);
+  const [selectedImportFile, setSelectedImportFile] = useState<string | null>(null);
+  const [historyQuery, setHistoryQuery] = useState<HistoryQuery>(DEFAULT_HISTORY_QUERY);
+  // Matches for a non-default query, or null while the paged list is shown (or the search runs).
+  const [queryResults, setQueryResults] = useState<DriveHistoryItem[] | null>(null);
+  const [queryVisibleCount, setQueryVisibleCount] = useState(HISTORY_PAGE_SIZE);
   const [expandedHistoryId, setExpandedHistoryId] = useState<string | null>(null);
+  const [editingHistoryId, setEditingHistoryId] = useState<string | null>(null);
+  // Plain-text receipt last issued from the history list, shown under its ride.
+  const [receiptPreview, setReceiptPreview] = useState<{ itemId: string; text: string } | null>(null);
+  // Last deleted ride, offered for undo until the next delete.
+  const [deletedHistoryItem, setDeletedHistoryItem] = useState<DriveHistoryItem | null>(null);
   const [restorableSnapshot, setRestorableSnapshot] = useState<SessionSnapshot | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [backupPanelOpen, setBackupPanelOpen] = useState(false);
+  const [backupFiles, setBackupFiles] = useState<string[]>([]);
+  const [backupInspection, setBackupInspection] = useState<BackupInspection | null>(null);
   const [showDisclaimer, setShowDisclaimer] = useState(true);
   const [locationProfile, setLocationProfile] = useState<LocationProfile>('balanced');
   const [profileSwitchCount, setProfileSwitchCount] = useState(0);
   const [autoPausedByBackground, setAutoPausedByBackground] = useState(false);
+  const [appSettings, setAppSettings] = useState<AppSettings>(DEFAULT_APP_SETTINGS);
+  const [nextReceiptNumber, setNextReceiptNumber] = useState(1);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [rideSource, setRideSource] = useState<RideSource>('live');
+  const [traceFiles, setTraceFiles] = useState<string[]>([]);
+  const [importedTrace, setImportedTrace] = useState<ImportedTrace | null>(null);
+  const [playbackSpeed, setPlaybackSpeed] = useState(PLAYBACK_SPEEDS[0]!);
+  const [playback, setPlayback] = useState<{ label: string; sampleCount: number } | null>(null);
+  const [playbackIndex, setPlaybackIndex] = useState(0);
+  const [scenarioText, setScenarioText] = useState(DEFAULT_SCENARIO);
+  const [playbackFinished, setPlaybackFinished] = useState(false);
 
   const watchSub = useRef<Location.LocationSubscription | null>(null);
-  const lastPoint = useRef<LatLng | null>(null);
-  const lastSampleTimeMs = useRef<number | null>(null);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const fareRuntimeRef = useRef(createFareRuntime(DEFAULT_FARE_PRESET));
+  const pipelineRef = useRef<MeterPipelineState>(createPipelineState(DEFAULT_FARE_PRESET));
   const elapsedAccumulatedMsRef = useRef(0);
   const runningSegmentStartMsRef = useRef<number | null>(null);
-  const firstAcceptedPointRef = useRef<LatLng | null>(null);
-  const lastAcceptedPointRef = useRef<LatLng | null>(null);
   const sessionEventsRef = useRef<SessionEvent[]>([]);
   const pauseLogsRef = useRef<PauseLog[]>([]);
+  const recoveryGapsRef = useRef<RecoveryGap[]>([]);
   const pauseStartedAtRef = useRef<number | null>(null);
   const lastSnapshotSavedAtMsRef = useRef(0);
+  // Off from the moment a ride finishes, so no save queued afterwards can bring the snapshot back.
+  const snapshotWritesEnabledRef = useRef(false);
   const locationProfileRef = useRef<LocationProfile>('balanced');
   const profileRestartingRef = useRef(false);
-
-  const selectedPreset = useMemo(
-    () => getPresetById(selectedPresetId),
-    [selectedPresetId]
+  const rideSourceRef = useRef<RideSource>('live');
+  const backgroundTrackingRef = useRef(false);
+  const tracePlayerRef = useRef<TracePlayer | null>(null);
+  const historyLoadingRef = useRef(false);
+
+  // The revision is locked at the session start; while idle it follows tariffClockMs, which is
+  // advanced whenever a revision of the selected preset starts or ends.
+  const selectedTariff = useMemo(
+    () =>
+      resolvePresetAt(
+        { ...getPresetById(selectedPresetId, customPresets), fareModel },
+        startedAtMs ?? tariffClockMs
+      ),
+    [selectedPresetId, customPresets, fareModel, startedAtMs, tariffClockMs]
   );
+  const selectedPreset = selectedTariff.preset;
+  const discountResult = applyDiscounts(fareYen, discountRules);
+  const selectablePresets = useMemo(() => getSelectablePresets(customPresets), [customPresets]);
+  const parsedScenario = useMemo(() => parseScenario(scenarioText), [scenarioText]);
+
+  useEffect(() => {
+    const boundaryMs = findNextRevisionBoundaryMs(
+      getPresetById(selectedPresetId, customPresets),
+      tariffClockMs
+    );
+    if (boundaryMs === null) return;
+    const waitMs = Math.min(Math.max(boundaryMs - Date.now(), 0), TARIFF_CLOCK_MAX_WAIT_MS);
+    const timer = setTimeout(() => setTariffClockMs(Date.now()), waitMs);
+    return () => clearTimeout(timer);
+  }, [selectedPresetId, customPresets, tariffClockMs]);
 
   useEffect(() => {
     let active = true;
     void (async () => {
-      const loaded = await loadDriveHistory();
+      const migration = await migrateStoredData();
+      const settings = await loadAppSettings();
+      const presets = await loadCustomPresets();
+      const firstPage = await loadDriveHistoryPage(null);
       const snapshot = await loadSessionSnapshot();
+      const receiptNumber = await loadNextReceiptNumber();
+      // The process that started background updates is gone. Queued samples are kept while a
+      // ride can still be restored; restoring replays them and discarding drops them.
+      await stopBackgroundLocationUpdates();
+      if (!snapshot) await drainBackgroundSamples();
       if (active) {
-        setHistoryItems(loaded);
+        setAppSettings(settings);
+        setNextReceiptNumber(receiptNumber);
+        setCustomPresets(presets);
+        setHistoryItems(firstPage.items);
+        setHistoryCursor(firstPage.nextCursor);
+        setHistoryTotalCount(firstPage.totalCount);
         if (snapshot) {
           setRestorableSnapshot(snapshot);
         }
+        if (migration.quarantinedRecords > 0) {
+          setErrorMessage(
+            `読み取れない保存データ ${migration.quarantinedRecords} 件を隔離ファイルに退避しました。`
+          );
+        }
       }
     })();
 
@@ -145,11 +332,29 @@ export default function App() {
     };
   }, []);
 
+  const historyQueryActive = !isDefaultHistoryQuery(historyQuery);
+
   useEffect(() => {
-    if (sessionState === 'idle') {
-      void clearSessionSnapshot();
-      return;
-    }
+    setQueryResults(null);
+    setQueryVisibleCount(HISTORY_PAGE_SIZE);
+    if (!historyQueryActive) return;
+
+    let active = true;
+    // Wait for typing to settle before reading the month files.
+    const timer = setTimeout(() => {
+      void searchDriveHistory(historyQuery).then((results) => {
+        if (active) setQueryResults(results);
+      });
+    }, HISTORY_SEARCH_DEBOUNCE_MS);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [historyQuery, historyQueryActive, historyTotalCount]);
+
+  useEffect(() => {
+    // finishSession clears the snapshot; clearing on idle here would race the restore check at startup.
+    if (sessionState === 'idle') return;
 
     const stateForSave: 'running' | 'paused' = sessionState === 'running' ? 'running' : 'paused';
     void persistSessionSnapshot(stateForSave);
@@ -166,15 +371,23 @@ export default function App() {
     elapsedMs,
     distanceKm,
     fareYen,
+    extraCharges,
+    discountRules,
     billingMode,
     selectedPresetId,
+    fareModel,
     acceptedSamples,
     filteredSamples,
   ]);
 
   useEffect(() => {
     const sub = AppState.addEventListener('change', (nextState: AppStateStatus) => {
-      if (nextState !== 'active' && sessionState === 'running') {
+      if (sessionState !== 'running' || rideSourceRef.current !== 'live') return;
+      if (nextState === 'active') {
+        void returnTrackingToForeground();
+      } else if (appSettings.backgroundBehavior === 'track') {
+        void moveTrackingToBackground();
+      } else {
         enterPausedState('background');
       }
     });
@@ -182,7 +395,14 @@ export default function App() {
     return () => {
       sub.remove();
     };
-  }, [sessionState]);
+  }, [sessionState, appSettings.backgroundBehavior]);
+
+  // Finish from a render after the last sample so the saved record sees the final meter state.
+  useEffect(() => {
+    if (!playbackFinished) return;
+    setPlaybackFinished(false);
+    void finishSession(pipelineRef.current.lastSampleTimeMs ?? Date.now());
+  }, [playbackFinished]);
 
   async function requestLocationPermission(): Promise<boolean> {
     const current = await Location.getForegroundPermissionsAsync();
@@ -206,26 +426,31 @@ export default function App() {
     setStartedAtMs(null);
     setElapsedMs(0);
     setDistanceKm(0);
+    setBridgedDistanceKm(0);
     setSpeedKmh(null);
     setFareYen(preset.baseFareYen);
+    setExtraCharges([]);
+    setDiscountRules(preset.discountRules ?? []);
     setBillingMode('unknown');
+    setSurchargeLabel(null);
     setAcceptedSamples(0);
     setFilteredSamples(0);
     setLocationProfile('balanced');
     setProfileSwitchCount(0);
     setAutoPausedByBackground(false);
-    fareRuntimeRef.current = createFareRuntime(preset);
+    pipelineRef.current = createPipelineState(preset, { gpsFilter: gpsFilterKind, distanceMethod });
     elapsedAccumulatedMsRef.current = 0;
     runningSegmentStartMsRef.current = null;
-    firstAcceptedPointRef.current = null;
-    lastAcceptedPointRef.current = null;
     sessionEventsRef.current = [];
     pauseLogsRef.current = [];
+    recoveryGapsRef.current = [];
     pauseStartedAtRef.current = null;
     locationProfileRef.current = 'balanced';
     profileRestartingRef.current = false;
-    lastPoint.current = null;
-    lastSampleTimeMs.current = null;
+    rideSourceRef.current = 'live';
+    setRideSource('live');
+    setPlayback(null);
+    setPlaybackIndex(0);
   }
 
   function stopLocationWatch() {
@@ -242,9 +467,21 @@ export default function App() {
     }
   }
 
+  function stopTracePlayer() {
+    if (tracePlayerRef.current) {
+      tracePlayerRef.current.stop();
+      tracePlayerRef.current = null;
+    }
+  }
+
   function stopSession() {
     stopLocationWatch();
     stopElapsedTimer();
+    stopTracePlayer();
+    if (backgroundTrackingRef.current) {
+      backgroundTrackingRef.current = false;
+      void stopBackgroundLocationUpdates();
+    }
     profileRestartingRef.current = false;
   }
 
@@ -272,7 +509,11 @@ export default function App() {
     };
   }
 
-  async function startLocationWatch(profile: LocationProfile = locationProfileRef.current) {
+  // Callers that start a ride pass the preset they resolved, since this render's one may be stale.
+  async function startLocationWatch(
+    profile: LocationProfile = locationProfileRef.current,
+    preset: FarePreset = selectedPreset
+  ) {
     stopLocationWatch();
     locationProfileRef.current = profile;
     setLocationProfile(profile);
@@ -280,85 +521,88 @@ export default function App() {
     watchSub.current = await Location.watchPositionAsync(
       getLocationWatchOptions(profile),
       (loc) => {
-        const nextPoint: LatLng = {
-          latitude: loc.coords.latitude,
-          longitude: loc.coords.longitude,
-        };
-
-        if (lastPoint.current && lastSampleTimeMs.current) {
-          const deltaKm = distanceKmBetween(lastPoint.current, nextPoint);
-          const deltaSeconds = Math.max(0.1, (loc.timestamp - lastSampleTimeMs.current) / 1000);
-          const rawSpeedKmh = (loc.coords.speed ?? 0) * 3.6;
-          const fallbackSpeedKmh = deltaSeconds > 0 ? (deltaKm / deltaSeconds) * 3600 : 0;
-          const currentSpeedKmh = rawSpeedKmh > 0 ? rawSpeedKmh : fallbackSpeedKmh;
-          const noisySampleReason = getNoisySampleReason({
-            deltaKm,
-            deltaSeconds,
-            speedKmh: currentSpeedKmh,
-            accuracyMeters: loc.coords.accuracy ?? null,
+        const outcome = applyLocationSample(toLocationSample(loc), preset);
+        if (outcome.kind !== 'accepted') return;
+
+        const desiredProfile = getDesiredLocationProfile(outcome.speedKmh, locationProfileRef.current);
+
+        if (
+          desiredProfile !== locationProfileRef.current &&
+          !profileRestartingRef.current
+        ) {
+          setProfileSwitchCount((prev) => prev + 1);
+          profileRestartingRef.current = true;
+          void startLocationWatch(desiredProfile, preset).finally(() => {
+            profileRestartingRef.current = false;
           });
+        }
+      }
+    );
+  }
 
-          if (noisySampleReason) {
-            setFilteredSamples((prev) => prev + 1);
-            setSpeedKmh(null);
-            setBillingMode('unknown');
-            console.debug('[gps-noise-filtered]', noisySampleReason, {
-              deltaKm,
-              deltaSeconds,
-              speedKmh: currentSpeedKmh,
-              accuracyMeters: loc.coords.accuracy ?? null,
-            });
-            lastPoint.current = nextPoint;
-            lastSampleTimeMs.current = loc.timestamp;
-            return;
-          }
-
-          setAcceptedSamples((prev) => prev + 1);
-          if (!firstAcceptedPointRef.current) {
-            firstAcceptedPointRef.current = nextPoint;
-          }
-          lastAcceptedPointRef.current = nextPoint;
-
-          if (deltaKm > 0) {
-            setDistanceKm((prev) => prev + deltaKm);
-          }
-
-          const nextRuntime = updateFareBySegment({
-            preset: selectedPreset,
-            runtime: fareRuntimeRef.current,
-            deltaDistanceKm: Math.max(0, deltaKm),
-            deltaSeconds,
-            speedKmh: currentSpeedKmh,
-          });
+  // Shared by the live location watch and trace playback so both update the meter identically.
+  function applyLocationSample(sample: LocationSample, preset: FarePreset): SampleOutcome {
+    const { state, outcome } = processLocationSample(pipelineRef.current, sample, preset);
+    pipelineRef.current = state;
+
+    if (outcome.kind === 'filtered') {
+      setFilteredSamples(state.filteredSamples);
+      setSpeedKmh(null);
+      setBillingMode('unknown');
+      console.debug('[gps-noise-filtered]', outcome.reason, {
+        deltaKm: outcome.deltaKm,
+        deltaSeconds: outcome.deltaSeconds,
+        speedKmh: outcome.speedKmh,
+        accuracyMeters: outcome.accuracyMeters,
+      });
+      return outcome;
+    }
 
-          fareRuntimeRef.current = nextRuntime;
-          setFareYen(nextRuntime.fareYen);
-          setSpeedKmh(currentSpeedKmh);
-          setBillingMode(
-            currentSpeedKmh <= selectedPreset.lowSpeedThresholdKmh ? 'time' : 'distance'
-          );
+    if (outcome.kind !== 'accepted') return outcome;
 
-          const desiredProfile =
-            currentSpeedKmh <= PROFILE_SWITCH_TO_BALANCED_KMH ? 'balanced' :
-            currentSpeedKmh >= PROFILE_SWITCH_TO_HIGH_KMH ? 'high' :
-            locationProfileRef.current;
-
-          if (
-            desiredProfile !== locationProfileRef.current &&
-            !profileRestartingRef.current
-          ) {
-            setProfileSwitchCount((prev) => prev + 1);
-            profileRestartingRef.current = true;
-            void startLocationWatch(desiredProfile).finally(() => {
-              profileRestartingRef.current = false;
-            });
-          }
-        }
+    setAcceptedSamples(state.acceptedSamples);
+    setDistanceKm(state.distanceKm);
+    setBridgedDistanceKm(state.bridgedDistanceKm);
 
-        lastPoint.current = nextPoint;
-        lastSampleTimeMs.current = loc.timestamp;
-      }
+    if (outcome.surchargeTransition) {
+      addSessionEvent(outcome.surchargeTransition, sample.timestamp);
+    }
+    setFareYen(state.fareRuntime.fareYen);
+    setSurchargeLabel(getActiveSurcharge(preset, sample.timestamp)?.label ?? null);
+    setSpeedKmh(outcome.speedKmh);
+    setBillingMode(outcome.billingMode);
+    return outcome;
+  }
+
+  async function moveTrackingToBackground() {
+    if (backgroundTrackingRef.current) return;
+    backgroundTrackingRef.current = true;
+    stopLocationWatch();
+    try {
+      await startBackgroundLocationUpdates();
+    } catch {
+      backgroundTrackingRef.current = false;
+      enterPausedState('background');
+    }
+  }
+
+  // Replays what the background task queued, then hands over to the foreground watch again.
+  async function returnTrackingToForeground() {
+    if (!backgroundTrackingRef.current) return;
+    backgroundTrackingRef.current = false;
+    await stopBackgroundLocationUpdates();
+
+    const lastSampleTimeMs = pipelineRef.current.lastSampleTimeMs ?? 0;
+    const queued = (await drainBackgroundSamples()).filter(
+      (sample) => sample.timestamp > lastSampleTimeMs
     );
+    queued.forEach((sample) => {
+      applyLocationSample(sample, selectedPreset);
+    });
+    if (queued.length > 0) {
+      setErrorMessage(`バックグラウンド中の位置情報 ${queued.length} 件を反映しました。`);
+    }
+    await startLocationWatch(locationProfileRef.current);
   }
 
   function finalizeRunningSegment(nowMs: number) {
@@ -369,36 +613,91 @@ export default function App() {
     setElapsedMs(elapsedAccumulatedMsRef.current);
   }
 
-  function addSessionEvent(type: SessionEvent['type'], atMs: number) {
-    sessionEventsRef.current = [...sessionEventsRef.current, { type, atMs }];
+  function addSessionEvent(type: SessionEvent['type'], atMs: number, extraChargeId?: string) {
+    sessionEventsRef.current = [
+      ...sessionEventsRef.current,
+      { type, atMs, ...(extraChargeId ? { extraChargeId } : {}) },
+    ];
+  }
+
+  // Charges can be added while running or paused; the snapshot effect saves them right away.
+  function addExtraCharge(category: ExtraChargeCategory, amountYen: number) {
+    if (sessionState === 'idle') return;
+    const charge = createExtraCharge(category, amountYen, Date.now());
+    addSessionEvent('extra_charge', charge.atMs, charge.id);
+    setExtraCharges((prev) => [...prev, charge]);
+  }
+
+  function removeExtraCharge(charge: ExtraCharge) {
+    addSessionEvent('extra_charge_cancel', Date.now(), charge.id);
+    setExtraCharges((prev) => prev.filter((item) => item.id !== charge.id));
+  }
+
+  function toggleDiscountRule(rule: DiscountRule) {
+    setDiscountRules((prev) =>
+      prev.some((item) => item.id === rule.id) ? prev.filter((item) => item.id !== rule.id) : [...prev, rule]
+    );
+  }
+
+  function addCouponDiscount(amountYen: number) {
+    setDiscountRules((prev) => [...prev, createCouponRule(amountYen, Date.now())]);
+  }
+
+  // The preset's copy of a catalog rule wins; coupons added to the ride come last.
+  function getRideDiscountChoices(): DiscountRule[] {
+    const choices: DiscountRule[] = [];
+    [...(selectedPreset.discountRules ?? []), ...DISCOUNT_RULE_CATALOG, ...discountRules].forEach((rule) => {
+      if (!choices.some((item) => item.id === rule.id)) choices.push(rule);
+    });
+    return choices;
   }
 
   function buildSessionSnapshot(state: 'running' | 'paused'): SessionSnapshot | null {
     if (!startedAtMs) return null;
+    const savedAtMs = Date.now();
+    const runningSegmentMs = runningSegmentStartMsRef.current
+      ? Math.max(0, savedAtMs - runningSegmentStartMsRef.current)
+      : 0;
     return {
-      savedAtMs: Date.now(),
+      savedAtMs,
       sessionState: state,
       startedAtMs,
-      elapsedMs: elapsedAccumulatedMsRef.current,
+      elapsedMs: elapsedAccumulatedMsRef.current + runningSegmentMs,
       distanceKm,
+      bridgedDistanceKm,
       fareYen,
       billingMode,
       selectedPresetId,
+      fareModel,
+      gpsFilter: pipelineRef.current.gpsFilter.kind,
+      distanceMethod: pipelineRef.current.distanceMethod,
       acceptedSamples,
       filteredSamples,
-      fareRuntime: fareRuntimeRef.current,
-      from: firstAcceptedPointRef.current,
-      to: lastAcceptedPointRef.current,
+      fareRuntime: pipelineRef.current.fareRuntime,
+      from: pipelineRef.current.firstAcceptedPoint,
+      to: pipelineRef.current.lastAcceptedPoint,
+      track: pipelineRef.current.track,
+      recoveryGaps: recoveryGapsRef.current,
+      pauseStartedAtMs: pauseStartedAtRef.current,
+      extraCharges,
+      discountRules,
       pauseLogs: pauseLogsRef.current,
       events: sessionEventsRef.current,
     };
   }
 
   async function persistSessionSnapshot(state: 'running' | 'paused') {
+    // Played-back rides can be re-run from the file, so they are not worth restoring.
+    if (rideSourceRef.current !== 'live' || !snapshotWritesEnabledRef.current) return;
     const snapshot = buildSessionSnapshot(state);
     if (!snapshot) return;
-    await saveSessionSnapshot(snapshot);
-    lastSnapshotSavedAtMsRef.current = snapshot.savedAtMs;
+    try {
+      await saveSessionSnapshot(snapshot);
+      lastSnapshotSavedAtMsRef.current = snapshot.savedAtMs;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      setErrorMessage(`中断セッションを保存できませんでした（${reason}）。`);
+    }
   }
 
   function enterPausedState(reason: 'manual' | 'background' = 'manual') {
@@ -416,8 +715,9 @@ export default function App() {
     void persistSessionSnapshot('paused');
   }
 
-  async function finishSession() {
-    const finishedAtMs = Date.now();
+  async function finishSession(finishedAtMs = Date.now()) {
+    // Saves already started are queued ahead of the clear below; later ones are skipped.
+    snapshotWritesEnabledRef.current = false;
     if (pauseStartedAtRef.current) {
       pauseLogsRef.current = [
         ...pauseLogsRef.current,
@@ -432,27 +732,55 @@ export default function App() {
     addSessionEvent('finish', finishedAtMs);
 
     if (startedAtMs) {
+      const createdAtMs = Date.now();
       const record: DriveHistoryItem = {
-        id: `${startedAtMs}-${finishedAtMs}`,
-        createdAtMs: finishedAtMs,
+        id: buildRideId({ startedAtMs, finishedAtMs, createdAtMs, source: rideSourceRef.current }),
+        createdAtMs,
         startedAtMs,
         finishedAtMs,
         elapsedMs: elapsedAccumulatedMsRef.current,
         distanceKm,
+        bridgedDistanceKm: pipelineRef.current.bridgedDistanceKm,
         fareYen,
         presetId: selectedPreset.id,
-        from: firstAcceptedPointRef.current,
-        to: lastAcceptedPointRef.current,
+        source: rideSourceRef.current,
+        traceFileName: rideSourceRef.current === 'imported' ? playback?.label : undefined,
+        scenario: rideSourceRef.current === 'synthetic' ? playback?.label : undefined,
+        fareModel,
+        revisionId: selectedTariff.revision.id,
+        from: pipelineRef.current.firstAcceptedPoint,
+        to: pipelineRef.current.lastAcceptedPoint,
+        gpsFilter: pipelineRef.current.gpsFilter.kind,
+        distanceMethod: pipelineRef.current.distanceMethod,
+        track: pipelineRef.current.track,
+        recoveryGaps: recoveryGapsRef.current,
         acceptedSamples,
         filteredSamples,
-        distanceChargeSteps: fareRuntimeRef.current.distanceChargeSteps,
-        timeChargeSteps: fareRuntimeRef.current.timeChargeSteps,
+        distanceChargeSteps: pipelineRef.current.fareRuntime.distanceChargeSteps,
+        timeChargeSteps: pipelineRef.current.fareRuntime.timeChargeSteps,
+        surchargeChargeSteps: pipelineRef.current.fareRuntime.surchargeChargeSteps,
+        distanceModeKm: pipelineRef.current.fareRuntime.distanceModeKmTotal,
+        lowSpeedSeconds: pipelineRef.current.fareRuntime.lowSpeedSecondsTotal,
+        extraCharges,
+        discounts: discountResult.applied,
         pauseLogs: pauseLogsRef.current,
         events: sessionEventsRef.current,
       };
 
-      await appendDriveHistory(record);
-      setHistoryItems((prev) => [record, ...prev].slice(0, 100));
+      try {
+        await appendDriveHistory(record);
+      } catch (error) {
+        // The snapshot is kept, so a live ride can be restored and finished again.
+        const reason = error instanceof Error ? error.message : String(error);
+        stopSession();
+        resetMeter(selectedPreset);
+        setSessionState('idle');
+        setRestorableSnapshot(await loadSessionSnapshot());
+        setErrorMessage(`乗車記録を保存できませんでした（${reason}）。`);
+        return;
+      }
+      setHistoryItems((prev) => [record, ...prev]);
+      setHistoryTotalCount((prev) => prev + 1);
     }
 
     await clearSessionSnapshot();
@@ -466,16 +794,25 @@ export default function App() {
     const granted = await requestLocationPermission();
     if (!granted) return;
 
-    resetMeter(selectedPreset);
+    setRestorableSnapshot(null);
+    setPresetEditor(null);
+    // Starting over discards an unrestored ride, including what its background task queued.
+    await drainBackgroundSamples();
     const start = Date.now();
+    const { preset } = resolvePresetAt(
+      { ...getPresetById(selectedPresetId, customPresets), fareModel },
+      start
+    );
+    resetMeter(preset);
     setStartedAtMs(start);
     addSessionEvent('start', start);
     elapsedAccumulatedMsRef.current = 0;
     runningSegmentStartMsRef.current = start;
+    snapshotWritesEnabledRef.current = true;
     setSessionState('running');
     setAutoPausedByBackground(false);
     startElapsedTimer();
-    await startLocationWatch('balanced');
+    await startLocationWatch('balanced', preset);
     await persistSessionSnapshot('running');
   }
 
@@ -495,8 +832,7 @@ export default function App() {
     }
     addSessionEvent('resume', now);
     runningSegmentStartMsRef.current = now;
-    lastPoint.current = null;
-    lastSampleTimeMs.current = null;
+    pipelineRef.current = resetSampleCursor(pipelineRef.current);
     setSessionState('running');
     setAutoPausedByBackground(false);
     startElapsedTimer();
@@ -504,64 +840,586 @@ export default function App() {
     await persistSessionSnapshot('running');
   }
 
+  async function refreshTraceFiles() {
+    const files = await listImportableTraceFiles();
+    setTraceFiles(files);
+    if (files.length === 0) {
+      setErrorMessage('書類フォルダに .gpx / .nmea ファイルが見つかりません。');
+    }
+  }
+
+  async function selectTraceFile(fileName: string) {
+    try {
+      const trace = await importTraceFile(fileName);
+      if (!trace || trace.samples.length < 2) {
+        setImportedTrace(null);
+        setErrorMessage(`${fileName} から再生可能な測位点を読み取れませんでした。`);
+        return;
+      }
+      setImportedTrace(trace);
+      setErrorMessage(null);
+    } catch {
+      setImportedTrace(null);
+      setErrorMessage(`${fileName} を読み込めませんでした。`);
+    }
+  }
+
+  // Plays samples through the same sample handler as the live watch. The session clock follows
+  // the sample timestamps, so revisions and surcharges match the time they describe.
+  function startSimulatedRide(source: Exclude<RideSource, 'live'>, label: string, samples: LocationSample[]) {
+    const first = samples[0];
+    if (!first || sessionState !== 'idle') return;
+
+    const { preset } = resolvePresetAt(
+      { ...getPresetById(selectedPresetId, customPresets), fareModel },
+      first.timestamp
+    );
+    setErrorMessage(null);
+    resetMeter(preset);
+    setPresetEditor(null);
+    rideSourceRef.current = source;
+    setRideSource(source);
+    setPlayback({ label, sampleCount: samples.length });
+    setStartedAtMs(first.timestamp);
+    addSessionEvent('start', first.timestamp);
+    setSessionState('running');
+
+    tracePlayerRef.current = startTracePlayer({
+      samples,
+      speedMultiplier: playbackSpeed,
+      onSample: (sample, index) => {
+        applyLocationSample(sample, preset);
+        elapsedAccumulatedMsRef.current = sample.timestamp - first.timestamp;
+        setElapsedMs(elapsedAccumulatedMsRef.current);
+        setPlaybackIndex(index + 1);
+      },
+      onComplete: () => setPlaybackFinished(true),
+    });
+  }
+
+  function startTracePlayback() {
+    if (!importedTrace) return;
+    startSimulatedRide('imported', importedTrace.fileName, importedTrace.samples);
+  }
+
+  function startVirtualDrive() {
+    if (parsedScenario.errors.length > 0) return;
+    const samples = generateScenarioSamples({ segments: parsedScenario.segments, endMs: Date.now() });
+    startSimulatedRide('synthetic', scenarioText.trim(), samples);
+  }
+
+  function changePlaybackSpeed(multiplier: number) {
+    setPlaybackSpeed(multiplier);
+    tracePlayerRef.current?.setSpeedMultiplier(multiplier);
+  }
+
+  function renderPlaybackSpeedChips() {
+    return (
+      <View style={styles.presetActionRow}>
+        {PLAYBACK_SPEEDS.map((multiplier) => {
+          const active = playbackSpeed === multiplier;
+          return (
+            <Pressable
+              key={multiplier}
+              onPress={() => changePlaybackSpeed(multiplier)}
+              style={({ pressed }) => [
+                styles.presetButton,
+                active && styles.presetButtonActive,
+                pressed && styles.pressed,
+              ]}
+            >
+              <Text style={[styles.presetText, active && styles.presetTextActive]}>
+                {formatPlaybackSpeed(multiplier)}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    );
+  }
+
   const canStart = permission !== 'denied' && sessionState === 'idle';
   const canChangePreset = sessionState === 'idle';
 
   function handlePresetChange(nextPresetId: string) {
     if (!canChangePreset) return;
-    const nextPreset = getPresetById(nextPresetId);
+    const nextPreset = getPresetById(nextPresetId, customPresets);
     setSelectedPresetId(nextPresetId);
-    resetMeter(nextPreset);
+    setFareModel(nextPreset.fareModel);
+    // The idle meter shows the revision in force, as selectedTariff and startSession resolve it.
+    resetMeter(resolvePresetAt(nextPreset, tariffClockMs).preset);
+  }
+
+  function handleFareModelChange(nextModel: FareModel) {
+    if (!canChangePreset) return;
+    setFareModel(nextModel);
+  }
+
+  function handleGpsFilterChange(nextFilter: GpsFilterKind) {
+    if (!canChangePreset) return;
+    setGpsFilterKind(nextFilter);
+  }
+
+  async function handleBackgroundBehaviorChange(nextBehavior: BackgroundBehavior) {
+    if (nextBehavior === 'track') {
+      const granted = await requestBackgroundLocationPermission();
+      if (!granted) {
+        setErrorMessage('バックグラウンド計測には位置情報の「常に許可」が必要です。');
+        return;
+      }
+    }
+    const nextSettings: AppSettings = { ...appSettings, backgroundBehavior: nextBehavior };
+    setAppSettings(nextSettings);
+    await saveAppSettings(nextSettings);
+  }
+
+  async function refreshBackupFiles() {
+    setBackupFiles(await listBackupFiles());
+  }
+
+  async function toggleBackupPanel() {
+    if (backupPanelOpen) {
+      setBackupPanelOpen(false);
+      setBackupInspection(null);
+      return;
+    }
+    setBackupPanelOpen(true);
+    await refreshBackupFiles();
+  }
+
+  async function createAppBackup() {
+    try {
+      const backupPath = await createBackup();
+      setErrorMessage(`バックアップを書き出しました: ${backupPath}`);
+      await refreshBackupFiles();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      setErrorMessage(`バックアップを書き出せませんでした（${reason}）。`);
+    }
+  }
+
+  async function selectBackupFile(fileName: string) {
+    setBackupInspection(null);
+    try {
+      setBackupInspection(await inspectBackup(fileName));
+      setErrorMessage(null);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      setErrorMessage(`${fileName} を読み込めませんでした（${reason}）。`);
+    }
+  }
+
+  // Restored parts are reloaded the same way as at startup; a restored snapshot is offered through
+  // the usual resume card.
+  async function restoreFromBackup(parts: BackupPart[]) {
+    if (!backupInspection || sessionState !== 'idle') return;
+    try {
+      const safetyPath = await restoreBackup(backupInspection, parts);
+      const settings = await loadAppSettings();
+      const presets = await loadCustomPresets();
+      const firstPage = await loadDriveHistoryPage(null);
+      setAppSettings(settings);
+      setNextReceiptNumber(await loadNextReceiptNumber());
+      setCustomPresets(presets);
+      setHistoryItems(firstPage.items);
+      setHistoryCursor(firstPage.nextCursor);
+      setHistoryTotalCount(firstPage.totalCount);
+      setRestorableSnapshot(await loadSessionSnapshot());
+      setBackupInspection(null);
+      await refreshBackupFiles();
+      setErrorMessage(
+        `${parts.map((part) => BACKUP_PART_LABELS[part]).join('・')}を復元しました（復元前の状態: ${safetyPath}）`
+      );
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  function handleDistanceMethodChange(nextMethod: DistanceMethod) {
+    if (!canChangePreset) return;
+    setDistanceMethod(nextMethod);
+  }
+
+  async function updateCustomPresets(next: CustomFarePreset[]) {
+    setCustomPresets(next);
+    await saveCustomPresets(next);
+  }
+
+  async function savePresetFromEditor(preset: FarePreset) {
+    // Saving selects the preset and resets the meter, which would wipe a ride in progress.
+    if (!presetEditor || !canChangePreset) return;
+    const now = Date.now();
+    const existing = customPresets.find((item) => item.id === preset.id);
+    const saved: CustomFarePreset =
+      presetEditor.mode === 'edit' && existing
+        ? { ...existing, ...preset, updatedAtMs: now }
+        : createCustomPreset(preset, preset.label, now);
+
+    await updateCustomPresets(upsertCustomPreset(customPresets, saved));
+    setPresetEditor(null);
+    setSelectedPresetId(saved.id);
+    setFareModel(saved.fareModel);
+    resetMeter(resolvePresetAt(saved, tariffClockMs).preset);
+  }
+
+  async function deleteSelectedPreset() {
+    if (!canChangePreset || isBuiltInPresetId(selectedPresetId)) return;
+    await updateCustomPresets(markCustomPresetDeleted(customPresets, selectedPresetId, Date.now()));
+    setPresetEditor(null);
+    setSelectedPresetId(DEFAULT_FARE_PRESET.id);
+    setFareModel(DEFAULT_FARE_PRESET.fareModel);
+    resetMeter(resolvePresetAt(DEFAULT_FARE_PRESET, tariffClockMs).preset);
   }
 
   async function discardRestorableSnapshot() {
     setRestorableSnapshot(null);
     await clearSessionSnapshot();
+    await drainBackgroundSamples();
   }
 
-  async function restoreFromSnapshot() {
-    if (!restorableSnapshot) return;
+  // The ride always comes back paused. A snapshot saved while running leaves a gap between
+  // savedAtMs and now: either bill it as waiting time (the ride went on) or count it as a pause.
+  async function restoreFromSnapshot(treatment: RecoveryGap['treatment']) {
+    const snapshot = restorableSnapshot;
+    if (!snapshot) return;
     const granted = await requestLocationPermission();
     if (!granted) return;
 
-    const preset = getPresetById(restorableSnapshot.selectedPresetId);
-    setSelectedPresetId(restorableSnapshot.selectedPresetId);
-    setStartedAtMs(restorableSnapshot.startedAtMs);
-    setElapsedMs(restorableSnapshot.elapsedMs);
-    setDistanceKm(restorableSnapshot.distanceKm);
-    setFareYen(restorableSnapshot.fareYen);
-    setBillingMode(restorableSnapshot.billingMode);
-    setAcceptedSamples(restorableSnapshot.acceptedSamples);
-    setFilteredSamples(restorableSnapshot.filteredSamples);
+    const now = Date.now();
+    const restoredFareModel = snapshot.fareModel ?? 'legacy';
+    const { preset } = resolvePresetAt(
+      { ...getPresetById(snapshot.selectedPresetId, customPresets), fareModel: restoredFareModel },
+      snapshot.startedAtMs
+    );
+    // Samples the background task queued after the last save (e.g. before the OS killed the
+    // app). A paused ride was not tracking, so anything queued then is dropped.
+    const drained = await drainBackgroundSamples();
+    const queued =
+      snapshot.sessionState === 'running'
+        ? drained.filter((sample) => sample.timestamp > snapshot.savedAtMs && sample.timestamp <= now)
+        : [];
+    const replayedUntilMs = queued[queued.length - 1]?.timestamp ?? snapshot.savedAtMs;
+    const gap: RecoveryGap | null =
+      snapshot.sessionState === 'running' && now > replayedUntilMs
+        ? { fromMs: replayedUntilMs, toMs: now, treatment }
+        : null;
+
+    pipelineRef.current = {
+      ...createPipelineState(preset, {
+        gpsFilter: snapshot.gpsFilter ?? 'threshold',
+        distanceMethod: snapshot.distanceMethod ?? 'spherical',
+      }),
+      // Replayed samples continue from the last saved position.
+      ...(queued.length > 0 && snapshot.to ? { lastPoint: snapshot.to, lastSampleTimeMs: snapshot.savedAtMs } : {}),
+      fareRuntime: { ...createFareRuntime(preset), ...snapshot.fareRuntime },
+      distanceKm: snapshot.distanceKm,
+      bridgedDistanceKm: snapshot.bridgedDistanceKm ?? 0,
+      acceptedSamples: snapshot.acceptedSamples,
+      filteredSamples: snapshot.filteredSamples,
+      firstAcceptedPoint: snapshot.from,
+      lastAcceptedPoint: snapshot.to,
+      track: snapshot.track ?? [],
+    };
+    sessionEventsRef.current = snapshot.events;
+    queued.forEach((sample) => {
+      applyLocationSample(sample, preset);
+    });
+
+    const waitingMs = gap?.treatment === 'waiting' ? gap.toMs - gap.fromMs : 0;
+    if (gap && waitingMs > 0) {
+      // Each piece is billed at the surcharge rate in force during it.
+      const fareRuntime = splitAtSurchargeBoundaries(preset, gap.fromMs, gap.toMs).reduce(
+        (runtime, piece) =>
+          updateFareBySegment({
+            preset,
+            runtime,
+            deltaDistanceKm: 0,
+            deltaSeconds: (piece.toMs - piece.fromMs) / 1000,
+            speedKmh: 0,
+            atMs: piece.fromMs,
+          }),
+        pipelineRef.current.fareRuntime
+      );
+      pipelineRef.current = { ...pipelineRef.current, fareRuntime };
+    }
+    const restored = pipelineRef.current;
+    const restoredElapsedMs = snapshot.elapsedMs + (replayedUntilMs - snapshot.savedAtMs) + waitingMs;
+
+    setSelectedPresetId(snapshot.selectedPresetId);
+    setFareModel(restoredFareModel);
+    setGpsFilterKind(snapshot.gpsFilter ?? 'threshold');
+    setDistanceMethod(snapshot.distanceMethod ?? 'spherical');
+    setStartedAtMs(snapshot.startedAtMs);
+    setElapsedMs(restoredElapsedMs);
+    setDistanceKm(restored.distanceKm);
+    setBridgedDistanceKm(restored.bridgedDistanceKm);
+    setFareYen(restored.fareRuntime.fareYen);
+    setExtraCharges(snapshot.extraCharges ?? []);
+    setDiscountRules(snapshot.discountRules ?? []);
+    setBillingMode(snapshot.billingMode);
+    setAcceptedSamples(restored.acceptedSamples);
+    setFilteredSamples(restored.filteredSamples);
     setSpeedKmh(null);
 
-    fareRuntimeRef.current = restorableSnapshot.fareRuntime;
-    elapsedAccumulatedMsRef.current = restorableSnapshot.elapsedMs;
+    elapsedAccumulatedMsRef.current = restoredElapsedMs;
     runningSegmentStartMsRef.current = null;
-    firstAcceptedPointRef.current = restorableSnapshot.from;
-    lastAcceptedPointRef.current = restorableSnapshot.to;
-    pauseLogsRef.current = restorableSnapshot.pauseLogs;
-    sessionEventsRef.current = restorableSnapshot.events;
-    pauseStartedAtRef.current = null;
-    lastPoint.current = null;
-    lastSampleTimeMs.current = null;
+    pauseLogsRef.current = snapshot.pauseLogs;
+    recoveryGapsRef.current = [...(snapshot.recoveryGaps ?? []), ...(gap ? [gap] : [])];
+
+    let pausedAtMs = now;
+    let events = sessionEventsRef.current;
+    if (snapshot.sessionState === 'paused') {
+      pausedAtMs = snapshot.pauseStartedAtMs ?? snapshot.savedAtMs;
+    } else if (gap?.treatment === 'pause') {
+      pausedAtMs = gap.fromMs;
+      events = [...events, { type: 'pause', atMs: gap.fromMs }];
+    } else {
+      events = [...events, { type: 'pause', atMs: now }];
+    }
+    pauseStartedAtRef.current = pausedAtMs;
+    sessionEventsRef.current = [...events, { type: 'restore', atMs: now }];
 
+    snapshotWritesEnabledRef.current = true;
+    setPresetEditor(null);
     setSessionState('paused');
     setAutoPausedByBackground(false);
     setRestorableSnapshot(null);
-    await persistSessionSnapshot('paused');
     setErrorMessage(
       `中断セッションを復元しました（${preset.label} / ${new Date(
-        restorableSnapshot.startedAtMs
-      ).toLocaleString()}）`
+        snapshot.startedAtMs
+      ).toLocaleString()}${
+        queued.length > 0 ? ` / バックグラウンド中の位置情報 ${queued.length} 件を反映` : ''
+      }${
+        gap ? ` / 空白 ${formatDuration(gap.toMs - gap.fromMs)} を${gap.treatment === 'waiting' ? '待機時間として課金' : '一時停止として記録'}` : ''
+      }）`
+    );
+  }
+
+  function renderRevisionComparison(item: DriveHistoryItem) {
+    const preset = { ...getPresetById(item.presetId, customPresets), fareModel: item.fareModel ?? 'legacy' };
+    const revisions = getPresetRevisions(preset);
+    if (revisions.length <= 1) return null;
+    if (item.distanceModeKm === undefined || item.lowSpeedSeconds === undefined) {
+      return <Text style={styles.historySub}>改定別の再計算: 記録データなし</Text>;
+    }
+
+    const usage = { distanceModeKm: item.distanceModeKm, lowSpeedSeconds: item.lowSpeedSeconds };
+    return revisions.map((revision) => (
+      <Text key={revision.id} style={styles.historySub}>
+        {revision.id === item.revisionId ? '▶ ' : '　'}
+        {formatRevisionPeriod(revision)}: {formatYen(estimateFareUnderRevision(preset, revision, usage))}
+        （割増除く）
+      </Text>
+    ));
+  }
+
+  async function loadMoreHistory() {
+    if (historyQueryActive) {
+      if (queryResults && queryVisibleCount < queryResults.length) {
+        setQueryVisibleCount((prev) => prev + HISTORY_PAGE_SIZE);
+      }
+      return;
+    }
+    if (!historyCursor || historyLoadingRef.current) return;
+    historyLoadingRef.current = true;
+    try {
+      const page = await loadDriveHistoryPage(historyCursor);
+      // Rides finished since the first page shift offsets within their month; drop repeats.
+      setHistoryItems((prev) => {
+        const seen = new Set(prev.map((item) => item.id));
+        return [...prev, ...page.items.filter((item) => !seen.has(item.id))];
+      });
+      setHistoryCursor(page.nextCursor);
+      setHistoryTotalCount(page.totalCount);
+    } finally {
+      historyLoadingRef.current = false;
+    }
+  }
+
+  function handleRightPaneScroll(event: NativeSyntheticEvent<NativeScrollEvent>) {
+    const { layoutMeasurement, contentOffset, contentSize } = event.nativeEvent;
+    if (layoutMeasurement.height + contentOffset.y >= contentSize.height - HISTORY_LOAD_MORE_THRESHOLD) {
+      void loadMoreHistory();
+    }
+  }
+
+  function replaceHistoryItem(updated: DriveHistoryItem) {
+    const replace = (items: DriveHistoryItem[]) =>
+      items.map((item) => (item.id === updated.id ? updated : item));
+    setHistoryItems(replace);
+    setQueryResults((prev) => (prev ? replace(prev) : prev));
+  }
+
+  async function issueHistoryReceipt(item: DriveHistoryItem) {
+    try {
+      const issued = await issueReceipt(item, appSettings, customPresets);
+      setNextReceiptNumber(await loadNextReceiptNumber());
+      replaceHistoryItem(issued.item);
+      setReceiptPreview({ itemId: item.id, text: buildReceiptText(issued.receipt) });
+      setErrorMessage(
+        `領収書 No. ${formatReceiptNumber(issued.receipt.receiptNumber)} を書き出しました: ${issued.htmlPath}`
+      );
+    } catch {
+      setErrorMessage('領収書を書き出せませんでした。');
+    }
+  }
+
+  async function handleReceiptIssuerSave() {
+    const nextSettings: AppSettings = { ...appSettings, receiptIssuerName: appSettings.receiptIssuerName.trim() };
+    setAppSettings(nextSettings);
+    await saveAppSettings(nextSettings);
+  }
+
+  async function saveHistoryAnnotations(item: DriveHistoryItem, annotations: HistoryAnnotations) {
+    let updated: DriveHistoryItem | null;
+    try {
+      updated = await annotateDriveHistoryItem(item, annotations);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      setErrorMessage(`履歴を保存できませんでした（${reason}）。`);
+      return;
+    }
+    setEditingHistoryId(null);
+    if (!updated) {
+      setErrorMessage('履歴が見つからないため保存できませんでした。');
+      return;
+    }
+    replaceHistoryItem(updated);
+  }
+
+  async function deleteHistoryItem(item: DriveHistoryItem) {
+    let deleted: DriveHistoryItem | null;
+    try {
+      deleted = await deleteDriveHistoryItem(item);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      setErrorMessage(`履歴を削除できませんでした（${reason}）。`);
+      return;
+    }
+    setEditingHistoryId(null);
+    if (!deleted) return;
+    const remove = (items: DriveHistoryItem[]) => items.filter((existing) => existing.id !== item.id);
+    setHistoryItems(remove);
+    setQueryResults((prev) => (prev ? remove(prev) : prev));
+    setHistoryTotalCount((prev) => prev - 1);
+    setDeletedHistoryItem(deleted);
+  }
+
+  async function undoDeleteHistoryItem() {
+    if (!deletedHistoryItem) return;
+    let restored: DriveHistoryItem | null;
+    try {
+      restored = await undoDeleteDriveHistoryItem(deletedHistoryItem);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      setErrorMessage(`削除を取り消せませんでした（${reason}）。`);
+      return;
+    }
+    setDeletedHistoryItem(null);
+    if (!restored) return;
+    setHistoryItems((prev) =>
+      [...prev, restored].sort((a, b) => b.startedAtMs - a.startedAtMs)
     );
+    // The count change re-runs an active search, which picks the ride up again.
+    setHistoryTotalCount((prev) => prev + 1);
   }
 
+  function renderAuditLog(item: DriveHistoryItem) {
+    if (!item.auditLog?.length) return null;
+    return item.auditLog.map((entry, index) => (
+      <Text key={`${entry.atMs}-${index}`} style={styles.historySub}>
+        {new Date(entry.atMs).toLocaleString()} {HISTORY_AUDIT_ACTION_LABELS[entry.action]}
+        {entry.changes?.length
+          ? `: ${entry.changes.map((change) => ANNOTATION_FIELD_LABELS[change.field]).join('・')}`
+          : ''}
+      </Text>
+    ));
+  }
+
+  // Exports follow the current search, so an unfiltered export contains every ride.
   async function exportHistory() {
-    const exportedPath = await exportDriveHistoryJson();
-    setErrorMessage(`履歴JSONを書き出しました: ${exportedPath}`);
+    const items = await searchDriveHistory(historyQuery);
+    const exportedPath = await exportDriveHistoryJson(items);
+    setErrorMessage(`履歴JSONを書き出しました（${items.length}件）: ${exportedPath}`);
+  }
+
+  async function exportCsv() {
+    const items = await searchDriveHistory(historyQuery);
+    const exportedPath = await exportDriveHistoryCsv(items, {
+      columns: appSettings.csvColumns,
+      rowMode: appSettings.csvRowMode,
+      presets: customPresets,
+    });
+    setErrorMessage(`履歴CSVを書き出しました（${items.length}件）: ${exportedPath}`);
+  }
+
+  async function handleCsvOptionsChange(next: { columns: CsvColumnId[]; rowMode: CsvRowMode }) {
+    const nextSettings: AppSettings = { ...appSettings, csvColumns: next.columns, csvRowMode: next.rowMode };
+    setAppSettings(nextSettings);
+    await saveAppSettings(nextSettings);
+  }
+
+  async function refreshImportFiles() {
+    setImportFiles(await listImportableHistoryFiles());
   }
 
+  async function toggleImportPanel() {
+    if (importPanelOpen) {
+      setImportPanelOpen(false);
+      setImportPlan(null);
+      setSelectedImportFile(null);
+      return;
+    }
+    setImportPanelOpen(true);
+    await refreshImportFiles();
+  }
+
+  async function planImport(fileName: string) {
+    setSelectedImportFile(fileName);
+    setImportPlan(null);
+    try {
+      setImportPlan(await planHistoryImport(fileName, customPresets));
+      setErrorMessage(null);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      setErrorMessage(`${fileName} を読み込めませんでした（${reason}）。`);
+    }
+  }
+
+  async function applyImport() {
+    if (!importPlan) return;
+    let added: number;
+    try {
+      added = await applyHistoryImport(importPlan);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      setErrorMessage(`${importPlan.fileName} を取り込めませんでした（${reason}）。`);
+      return;
+    }
+    const firstPage = await loadDriveHistoryPage(null);
+    setHistoryItems(firstPage.items);
+    setHistoryCursor(firstPage.nextCursor);
+    setHistoryTotalCount(firstPage.totalCount);
+    setNextReceiptNumber(await loadNextReceiptNumber());
+    setImportPlan(null);
+    setSelectedImportFile(null);
+    setErrorMessage(`${importPlan.fileName} から履歴を ${added} 件取り込みました。`);
+  }
+
+  async function exportTracks(format: 'gpx' | 'geojson') {
+    const items = await searchDriveHistory(historyQuery);
+    const exportedPath =
+      format === 'gpx' ? await exportDriveHistoryGpx(items) : await exportDriveHistoryGeoJson(items);
+    setErrorMessage(`走行軌跡を書き出しました（${items.length}件）: ${exportedPath}`);
+  }
+
+  const visibleHistoryItems = historyQueryActive
+    ? (queryResults ?? []).slice(0, queryVisibleCount)
+    : historyItems;
+  const hasMoreHistory = historyQueryActive
+    ? queryResults !== null && queryVisibleCount < queryResults.length
+    : historyCursor !== null;
+
   return (
     <SafeAreaProvider>
       <SafeAreaView style={styles.safeArea}>
@@ -571,8 +1429,23 @@ export default function App() {
           <Text style={styles.title}>TAXIMETER SIMULATOR</Text>
           <View style={styles.meterCard}>
             <View style={styles.farePanel}>
-              <Text style={styles.label}>FARE</Text>
+              <Text style={styles.label}>
+                {extraCharges.length > 0 || discountResult.applied.length > 0 ? 'FARE（メーター）' : 'FARE'}
+              </Text>
               <Text style={styles.fare}>{formatYen(fareYen)}</Text>
+              {discountResult.applied.length > 0 ? (
+                <Text style={styles.fareTotal}>
+                  割引後 {formatYen(discountResult.afterYen)}（
+                  {discountResult.applied.map((discount) => discount.label).join('・')} -
+                  {formatYen(discountResult.beforeYen - discountResult.afterYen)}）
+                </Text>
+              ) : null}
+              {extraCharges.length > 0 ? (
+                <Text style={styles.fareTotal}>
+                  合計 {formatYen(discountResult.afterYen + sumExtraCharges(extraCharges))}（追加料金{' '}
+                  {formatYen(sumExtraCharges(extraCharges))}）
+                </Text>
+              ) : null}
             </View>
 
             <View style={styles.statsRow}>
@@ -583,6 +1456,9 @@ export default function App() {
               <View style={styles.statBox}>
                 <Text style={styles.label}>DISTANCE</Text>
                 <Text style={styles.value}>{distanceKm.toFixed(2)} km</Text>
+                {bridgedDistanceKm > 0 ? (
+                  <Text style={styles.meta}>+{bridgedDistanceKm.toFixed(2)} km 補完</Text>
+                ) : null}
               </View>
               <View style={styles.statBox}>
                 <Text style={styles.label}>SPEED</Text>
@@ -596,15 +1472,31 @@ export default function App() {
                   {billingMode === 'time' ? '低速時間' : billingMode === 'distance' ? '距離' : '待機'}
                 </Text>
               </View>
+              <View style={styles.statBox}>
+                <Text style={styles.label}>割増</Text>
+                <Text style={[styles.modeValue, surchargeLabel !== null && styles.surchargeValue]}>
+                  {surchargeLabel ?? '--'}
+                </Text>
+              </View>
             </View>
 
             <Text style={styles.meta}>
               {startedAtMs ? `Started: ${new Date(startedAtMs).toLocaleTimeString()}` : 'Ready'}
             </Text>
+            {rideSource !== 'live' && playback ? (
+              <Text style={styles.meta}>
+                {rideSource === 'synthetic' ? 'SYNTHETIC' : 'SIMULATED'}: {playback.label} ({playbackIndex}/{playback.sampleCount}) @ {formatPlaybackSpeed(playbackSpeed)}
+              </Text>
+            ) : null}
           </View>
         </View>
 
-        <ScrollView style={styles.rightPane} contentContainerStyle={styles.rightPaneContent}>
+        <ScrollView
+          style={styles.rightPane}
+          contentContainerStyle={styles.rightPaneContent}
+          onScroll={handleRightPaneScroll}
+          scrollEventThrottle={200}
+        >
           <View style={styles.rulesCard}>
             <Text style={styles.label}>利用ルール / 免責</Text>
             {showDisclaimer ? (
@@ -641,13 +1533,74 @@ export default function App() {
           {settingsOpen ? (
             <View style={styles.presetCard}>
               <Text style={styles.label}>料金プリセット</Text>
-              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.presetRow}>
-                {FARE_PRESETS.map((preset) => {
-                  const active = selectedPresetId === preset.id;
+              <PresetPicker
+                presets={selectablePresets}
+                selectedId={selectedPresetId}
+                disabled={!canChangePreset}
+                onSelect={handlePresetChange}
+              />
+              <View style={styles.presetActionRow}>
+                <Pressable
+                  onPress={() =>
+                    setPresetEditor({
+                      mode: 'create',
+                      initial: { ...DEFAULT_FARE_PRESET, label: '新しいプリセット' },
+                    })
+                  }
+                  disabled={!canChangePreset}
+                  style={({ pressed }) => [styles.presetButton, pressed && styles.pressed]}
+                >
+                  <Text style={styles.presetText}>新規</Text>
+                </Pressable>
+                <Pressable
+                  onPress={() =>
+                    setPresetEditor({
+                      mode: 'create',
+                      initial: { ...selectedPreset, label: `${selectedPreset.label} のコピー` },
+                    })
+                  }
+                  disabled={!canChangePreset}
+                  style={({ pressed }) => [styles.presetButton, pressed && styles.pressed]}
+                >
+                  <Text style={styles.presetText}>複製</Text>
+                </Pressable>
+                {isBuiltInPresetId(selectedPresetId) ? null : (
+                  <>
+                    <Pressable
+                      onPress={() => setPresetEditor({ mode: 'edit', initial: selectedPreset })}
+                      disabled={!canChangePreset}
+                      style={({ pressed }) => [styles.presetButton, pressed && styles.pressed]}
+                    >
+                      <Text style={styles.presetText}>編集</Text>
+                    </Pressable>
+                    <Pressable
+                      onPress={deleteSelectedPreset}
+                      disabled={!canChangePreset}
+                      style={({ pressed }) => [styles.presetButton, pressed && styles.pressed]}
+                    >
+                      <Text style={styles.presetText}>削除</Text>
+                    </Pressable>
+                  </>
+                )}
+              </View>
+              {presetEditor && canChangePreset ? (
+                <PresetEditor
+                  key={`${presetEditor.mode}-${presetEditor.initial.id}-${presetEditor.initial.label}`}
+                  title={presetEditor.mode === 'edit' ? 'プリセットを編集' : 'プリセットを作成'}
+                  initial={presetEditor.initial}
+                  onSave={(preset) => void savePresetFromEditor(preset)}
+                  onCancel={() => setPresetEditor(null)}
+                />
+              ) : null}
+
+              <Text style={styles.label}>計算方式</Text>
+              <View style={styles.presetActionRow}>
+                {(Object.keys(FARE_MODEL_LABELS) as FareModel[]).map((model) => {
+                  const active = fareModel === model;
                   return (
                     <Pressable
-                      key={preset.id}
-                      onPress={() => handlePresetChange(preset.id)}
+                      key={model}
+                      onPress={() => handleFareModelChange(model)}
                       disabled={!canChangePreset}
                       style={({ pressed }) => [
                         styles.presetButton,
@@ -656,33 +1609,167 @@ export default function App() {
                       ]}
                     >
                       <Text style={[styles.presetText, active && styles.presetTextActive]}>
-                        {preset.label}
+                        {FARE_MODEL_LABELS[model]}
                       </Text>
                     </Pressable>
                   );
                 })}
-              </ScrollView>
+              </View>
+              <Text style={styles.label}>GPSフィルタ</Text>
+              <View style={styles.presetActionRow}>
+                {(Object.keys(GPS_FILTER_LABELS) as GpsFilterKind[]).map((kind) => {
+                  const active = gpsFilterKind === kind;
+                  return (
+                    <Pressable
+                      key={kind}
+                      onPress={() => handleGpsFilterChange(kind)}
+                      disabled={!canChangePreset}
+                      style={({ pressed }) => [
+                        styles.presetButton,
+                        active && styles.presetButtonActive,
+                        pressed && styles.pressed,
+                      ]}
+                    >
+                      <Text style={[styles.presetText, active && styles.presetTextActive]}>
+                        {GPS_FILTER_LABELS[kind]}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <Text style={styles.label}>距離計算</Text>
+              <View style={styles.presetActionRow}>
+                {(Object.keys(DISTANCE_METHOD_LABELS) as DistanceMethod[]).map((method) => {
+                  const active = distanceMethod === method;
+                  return (
+                    <Pressable
+                      key={method}
+                      onPress={() => handleDistanceMethodChange(method)}
+                      disabled={!canChangePreset}
+                      style={({ pressed }) => [
+                        styles.presetButton,
+                        active && styles.presetButtonActive,
+                        pressed && styles.pressed,
+                      ]}
+                    >
+                      <Text style={[styles.presetText, active && styles.presetTextActive]}>
+                        {DISTANCE_METHOD_LABELS[method]}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
               <Text style={styles.meta}>セッション中（計測中/一時停止中）は切替不可</Text>
 
+              <Text style={styles.label}>バックグラウンド時</Text>
+              <View style={styles.presetActionRow}>
+                {(Object.keys(BACKGROUND_BEHAVIOR_LABELS) as BackgroundBehavior[]).map((behavior) => {
+                  const active = appSettings.backgroundBehavior === behavior;
+                  return (
+                    <Pressable
+                      key={behavior}
+                      onPress={() => handleBackgroundBehaviorChange(behavior)}
+                      style={({ pressed }) => [
+                        styles.presetButton,
+                        active && styles.presetButtonActive,
+                        pressed && styles.pressed,
+                      ]}
+                    >
+                      <Text style={[styles.presetText, active && styles.presetTextActive]}>
+                        {BACKGROUND_BEHAVIOR_LABELS[behavior]}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <Text style={styles.meta}>
+                計測を継続: 画面オフ・他アプリ使用中も位置情報を記録し、復帰時に時刻順で料金へ反映
+              </Text>
+
+              <Text style={styles.label}>領収書の発行者名</Text>
+              <TextInput
+                value={appSettings.receiptIssuerName}
+                onChangeText={(text) => setAppSettings((prev) => ({ ...prev, receiptIssuerName: text }))}
+                onEndEditing={() => void handleReceiptIssuerSave()}
+                placeholder="例: ○○交通株式会社"
+                placeholderTextColor="#6b7280"
+                style={styles.textInput}
+              />
+              <Text style={styles.meta}>
+                次の領収書番号: No. {formatReceiptNumber(nextReceiptNumber)}（再発行は元の番号を使用）
+              </Text>
+
+              <Pressable
+                onPress={() => void toggleBackupPanel()}
+                style={({ pressed }) => [styles.exportButton, pressed && styles.pressed]}
+              >
+                <Text style={styles.exportButtonText}>
+                  {backupPanelOpen ? 'バックアップ・復元を閉じる' : 'バックアップ・復元（履歴・プリセット・設定）'}
+                </Text>
+              </Pressable>
+              {backupPanelOpen ? (
+                <BackupPanel
+                  files={backupFiles}
+                  inspection={backupInspection}
+                  canRestore={sessionState === 'idle'}
+                  onCreate={() => void createAppBackup()}
+                  onRefresh={() => void refreshBackupFiles()}
+                  onSelectFile={(fileName) => void selectBackupFile(fileName)}
+                  onRestore={(parts) => void restoreFromBackup(parts)}
+                />
+              ) : null}
+
               <View style={styles.logicCard}>
                 <Text style={styles.label}>計算ロジック（{selectedPreset.label}）</Text>
+                {selectedPreset.catalog ? (
+                  <Text style={styles.meta}>
+                    出典: {selectedPreset.catalog.notice.authority} 公示「{selectedPreset.catalog.notice.subject}」
+                    （{selectedPreset.catalog.effectiveFrom} 施行） {selectedPreset.catalog.notice.url}
+                  </Text>
+                ) : null}
+                {getPresetRevisions(selectedPreset).length > 1 ? (
+                  <Text style={styles.meta}>
+                    適用改定: {formatRevisionPeriod(selectedTariff.revision)}
+                    {startedAtMs ? '（セッション開始時に固定）' : ''}
+                  </Text>
+                ) : null}
                 <Text style={styles.logicLine}>
                   1. 時速 {selectedPreset.lowSpeedThresholdKmh}km 以下は時間加算
                 </Text>
                 <Text style={styles.logicLine}>
-                  2. それより速いと距離加算
-                </Text>
-                <Text style={styles.logicLine}>
-                  3. 距離: {Math.round(selectedPreset.distanceStepKm * 1000)}m ごとに +{selectedPreset.distanceStepFareYen}円
+                  2. {fareModel === 'combined'
+                    ? '低速時間を距離に換算し、距離と同じカウンタで加算（初乗り距離も消化）'
+                    : 'それより速いと距離加算（時間と距離は別々に加算）'}
                 </Text>
                 <Text style={styles.logicLine}>
-                  4. 時間: {selectedPreset.lowSpeedStepSeconds}秒ごとに +{selectedPreset.lowSpeedStepFareYen}円
+                  3. 初乗り: {selectedPreset.baseDistanceKm}km まで {selectedPreset.baseFareYen}円
                 </Text>
+                {selectedPreset.distanceBands.map((band, index) => (
+                  <Text key={`distance-${band.fromKm}`} style={styles.logicLine}>
+                    　距離{index + 1}: {band.fromKm}km〜 {Math.round(band.stepKm * 1000)}m ごとに +{band.stepFareYen}円
+                  </Text>
+                ))}
+                <Text style={styles.logicLine}>4. 低速時間</Text>
+                {selectedPreset.timeBands.map((band, index) => (
+                  <Text key={`time-${band.fromSeconds}`} style={styles.logicLine}>
+                    　時間{index + 1}: {band.fromSeconds}秒〜 {band.stepSeconds}秒ごとに +{band.stepFareYen}円
+                  </Text>
+                ))}
+                {selectedPreset.surchargeWindows.map((window) => (
+                  <Text key={window.label} style={styles.logicLine}>
+                    ・{window.label}: {formatMinuteOfDay(window.startMinuteOfDay)}〜{formatMinuteOfDay(window.endMinuteOfDay)} は {Math.round(window.rate * 100)}% 割増（加算距離・時間を短縮）
+                  </Text>
+                ))}
+                {(selectedPreset.discountRules ?? []).map((rule) => (
+                  <Text key={rule.id} style={styles.logicLine}>
+                    ・{rule.label}: {describeDiscountRule(rule)}
+                  </Text>
+                ))}
                 <Text style={styles.logicLine}>
-                  5. ノイズ除外: accepted={acceptedSamples} / filtered={filteredSamples}
+                  5. ノイズ除外（{GPS_FILTER_LABELS[gpsFilterKind]}）: accepted={acceptedSamples} / filtered={filteredSamples}
                 </Text>
                 <Text style={styles.logicLine}>
-                  6. バックグラウンド遷移時は自動一時停止
+                  6. バックグラウンド遷移時: {BACKGROUND_BEHAVIOR_LABELS[appSettings.backgroundBehavior]}
                 </Text>
                 <Text style={styles.logicLine}>
                   7. 省電力プロファイル: {locationProfile === 'high' ? '高精度' : '省電力'}
@@ -700,13 +1787,39 @@ export default function App() {
               <Text style={styles.logicLine}>
                 {new Date(restorableSnapshot.startedAtMs).toLocaleString()} / {restorableSnapshot.distanceKm.toFixed(2)}km / {formatYen(restorableSnapshot.fareYen)}
               </Text>
+              <Text style={styles.logicLine}>
+                最終保存: {new Date(restorableSnapshot.savedAtMs).toLocaleString()}（
+                {restorableSnapshot.sessionState === 'running' ? '計測中' : '一時停止中'}）/ 空白{' '}
+                {formatDuration(Date.now() - restorableSnapshot.savedAtMs)}
+              </Text>
+              {restorableSnapshot.sessionState === 'running' ? (
+                <>
+                  <Text style={styles.meta}>空白の時間の扱いを選んで復元（復元後は一時停止状態）</Text>
+                  <View style={styles.pausedActionRow}>
+                    <Pressable
+                      onPress={() => restoreFromSnapshot('waiting')}
+                      style={({ pressed }) => [styles.button, styles.resumeButton, pressed && styles.pressed]}
+                    >
+                      <Text style={styles.buttonText}>待機時間として課金</Text>
+                    </Pressable>
+                    <Pressable
+                      onPress={() => restoreFromSnapshot('pause')}
+                      style={({ pressed }) => [styles.button, styles.resumeButton, pressed && styles.pressed]}
+                    >
+                      <Text style={styles.buttonText}>一時停止として扱う</Text>
+                    </Pressable>
+                  </View>
+                </>
+              ) : null}
               <View style={styles.pausedActionRow}>
-                <Pressable
-                  onPress={restoreFromSnapshot}
-                  style={({ pressed }) => [styles.button, styles.resumeButton, pressed && styles.pressed]}
-                >
-                  <Text style={styles.buttonText}>復元</Text>
-                </Pressable>
+                {restorableSnapshot.sessionState === 'paused' ? (
+                  <Pressable
+                    onPress={() => restoreFromSnapshot('pause')}
+                    style={({ pressed }) => [styles.button, styles.resumeButton, pressed && styles.pressed]}
+                  >
+                    <Text style={styles.buttonText}>復元</Text>
+                  </Pressable>
+                ) : null}
                 <Pressable
                   onPress={discardRestorableSnapshot}
                   style={({ pressed }) => [styles.button, styles.stopButton, pressed && styles.pressed]}
@@ -729,7 +1842,104 @@ export default function App() {
             </Pressable>
           ) : null}
 
-          {sessionState === 'running' ? (
+          {sessionState === 'idle' ? (
+            <View style={styles.traceCard}>
+              <Text style={styles.label}>軌跡ファイルから再生（シミュレーション）</Text>
+              <Pressable
+                onPress={refreshTraceFiles}
+                style={({ pressed }) => [styles.exportButton, pressed && styles.pressed]}
+              >
+                <Text style={styles.exportButtonText}>書類フォルダの GPX / NMEA を探す</Text>
+              </Pressable>
+              <View style={styles.presetActionRow}>
+                {traceFiles.map((fileName) => {
+                  const active = importedTrace?.fileName === fileName;
+                  return (
+                    <Pressable
+                      key={fileName}
+                      onPress={() => selectTraceFile(fileName)}
+                      style={({ pressed }) => [
+                        styles.presetButton,
+                        active && styles.presetButtonActive,
+                        pressed && styles.pressed,
+                      ]}
+                    >
+                      <Text style={[styles.presetText, active && styles.presetTextActive]}>{fileName}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              {importedTrace ? (
+                <>
+                  <Text style={styles.logicLine}>
+                    {importedTrace.format.toUpperCase()} / {importedTrace.samples.length}点 /{' '}
+                    {new Date(importedTrace.samples[0]!.timestamp).toLocaleString()} から{' '}
+                    {formatDuration(
+                      importedTrace.samples[importedTrace.samples.length - 1]!.timestamp -
+                        importedTrace.samples[0]!.timestamp
+                    )}
+                  </Text>
+                  {renderPlaybackSpeedChips()}
+                  <Pressable
+                    onPress={startTracePlayback}
+                    style={({ pressed }) => [styles.button, styles.startButton, pressed && styles.pressed]}
+                  >
+                    <Text style={styles.buttonText}>再生開始</Text>
+                  </Pressable>
+                </>
+              ) : null}
+            </View>
+          ) : null}
+
+          {sessionState === 'idle' ? (
+            <View style={styles.traceCard}>
+              <Text style={styles.label}>仮想走行（GPSなし）</Text>
+              <TextInput
+                value={scenarioText}
+                onChangeText={setScenarioText}
+                placeholder={DEFAULT_SCENARIO}
+                placeholderTextColor="#6b7280"
+                multiline
+                style={styles.scenarioInput}
+              />
+              <Text style={styles.meta}>
+                「速度 時間/距離」をカンマ区切りで指定（例: 30km/h 5分, 停車 2分, 60km/h 10km）
+              </Text>
+              {parsedScenario.errors.length > 0 ? (
+                parsedScenario.errors.map((error) => (
+                  <Text key={error} style={styles.error}>
+                    {error}
+                  </Text>
+                ))
+              ) : (
+                <Text style={styles.logicLine}>
+                  {parsedScenario.segments.length}区間 / {formatDuration(getScenarioTotals(parsedScenario.segments).durationSeconds * 1000)} / {getScenarioTotals(parsedScenario.segments).distanceKm.toFixed(2)}km
+                </Text>
+              )}
+              {renderPlaybackSpeedChips()}
+              <Pressable
+                onPress={startVirtualDrive}
+                disabled={parsedScenario.errors.length > 0}
+                style={({ pressed }) => [styles.button, styles.startButton, pressed && styles.pressed]}
+              >
+                <Text style={styles.buttonText}>仮想走行を開始</Text>
+              </Pressable>
+            </View>
+          ) : null}
+
+          {sessionState === 'running' && rideSource !== 'live' ? (
+            <>
+              {renderPlaybackSpeedChips()}
+              <Pressable
+                onPress={() => finishSession(pipelineRef.current.lastSampleTimeMs ?? startedAtMs ?? Date.now())}
+                style={({ pressed }) => [styles.button, styles.stopButton, pressed && styles.pressed]}
+              >
+                <Text style={styles.buttonText}>再生を終了して保存</Text>
+              </Pressable>
+            </>
+          ) : null}
+
+          {sessionState === 'running' && rideSource === 'live' ? (
             <Pressable
               onPress={() => enterPausedState('manual')}
               style={({ pressed }) => [styles.button, styles.stopButton, pressed && styles.pressed]}
@@ -747,7 +1957,7 @@ export default function App() {
                 <Text style={styles.buttonText}>再開</Text>
               </Pressable>
               <Pressable
-                onPress={finishSession}
+                onPress={() => finishSession()}
                 style={({ pressed }) => [styles.button, styles.stopButton, pressed && styles.pressed]}
               >
                 <Text style={styles.buttonText}>終了</Text>
@@ -760,6 +1970,17 @@ export default function App() {
               {autoPausedByBackground ? '（バックグラウンド遷移により自動一時停止）' : ''}
             </Text>
           ) : null}
+          {sessionState !== 'idle' ? (
+            <ExtraChargePanel charges={extraCharges} onAdd={addExtraCharge} onRemove={removeExtraCharge} />
+          ) : null}
+          {sessionState !== 'idle' ? (
+            <DiscountPanel
+              rules={getRideDiscountChoices()}
+              selectedIds={discountRules.map((rule) => rule.id)}
+              onToggle={toggleDiscountRule}
+              onAddCoupon={addCouponDiscount}
+            />
+          ) : null}
           <View style={styles.historyCard}>
             <Text style={styles.label}>運転履歴</Text>
             <Pressable
@@ -768,39 +1989,208 @@ export default function App() {
             >
               <Text style={styles.exportButtonText}>履歴をJSONエクスポート</Text>
             </Pressable>
-            {historyItems.length === 0 ? (
-              <Text style={styles.meta}>履歴はまだありません</Text>
+            <Pressable
+              onPress={() => setCsvPanelOpen((prev) => !prev)}
+              style={({ pressed }) => [styles.exportButton, pressed && styles.pressed]}
+            >
+              <Text style={styles.exportButtonText}>
+                {csvPanelOpen ? 'CSVエクスポートを閉じる' : '履歴をCSVエクスポート（Excel対応）'}
+              </Text>
+            </Pressable>
+            {csvPanelOpen ? (
+              <CsvExportPanel
+                columns={appSettings.csvColumns}
+                rowMode={appSettings.csvRowMode}
+                onChange={(next) => void handleCsvOptionsChange(next)}
+                onExport={() => void exportCsv()}
+              />
+            ) : null}
+            <View style={styles.pausedActionRow}>
+              <Pressable
+                onPress={() => exportTracks('gpx')}
+                style={({ pressed }) => [styles.exportButton, styles.exportButtonHalf, pressed && styles.pressed]}
+              >
+                <Text style={styles.exportButtonText}>軌跡をGPXエクスポート</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => exportTracks('geojson')}
+                style={({ pressed }) => [styles.exportButton, styles.exportButtonHalf, pressed && styles.pressed]}
+              >
+                <Text style={styles.exportButtonText}>軌跡をGeoJSONエクスポート</Text>
+              </Pressable>
+            </View>
+            <Pressable
+              onPress={() => void toggleImportPanel()}
+              style={({ pressed }) => [styles.exportButton, pressed && styles.pressed]}
+            >
+              <Text style={styles.exportButtonText}>
+                {importPanelOpen ? 'インポートを閉じる' : '履歴をインポート（JSON / CSV）'}
+              </Text>
+            </Pressable>
+            {importPanelOpen ? (
+              <HistoryImportPanel
+                files={importFiles}
+                selectedFile={selectedImportFile}
+                plan={importPlan}
+                onRefresh={() => void refreshImportFiles()}
+                onSelectFile={(fileName) => void planImport(fileName)}
+                onApply={() => void applyImport()}
+              />
+            ) : null}
+            <Pressable
+              onPress={() => setHistoryFilterOpen((prev) => !prev)}
+              style={({ pressed }) => [styles.exportButton, pressed && styles.pressed]}
+            >
+              <Text style={styles.exportButtonText}>
+                {historyFilterOpen ? '検索・絞り込みを閉じる' : '検索・絞り込み'}
+                {historyQueryActive ? '（条件あり）' : ''}
+              </Text>
+            </Pressable>
+            {historyFilterOpen ? (
+              <HistoryFilterPanel
+                query={historyQuery}
+                presets={selectablePresets}
+                resultCount={historyQueryActive ? (queryResults?.length ?? null) : historyTotalCount}
+                onChange={setHistoryQuery}
+              />
+            ) : null}
+            {deletedHistoryItem ? (
+              <View style={styles.undoRow}>
+                <Text style={styles.undoText}>
+                  {new Date(deletedHistoryItem.startedAtMs).toLocaleString()} の履歴を削除しました
+                </Text>
+                <Pressable
+                  onPress={() => void undoDeleteHistoryItem()}
+                  style={({ pressed }) => [styles.undoButton, pressed && styles.pressed]}
+                >
+                  <Text style={styles.exportButtonText}>元に戻す</Text>
+                </Pressable>
+              </View>
+            ) : null}
+            {visibleHistoryItems.length === 0 ? (
+              <Text style={styles.meta}>
+                {historyQueryActive ? (queryResults ? '条件に一致する履歴はありません' : '検索中…') : '履歴はまだありません'}
+              </Text>
             ) : (
-              historyItems.slice(0, 8).map((item) => {
+              visibleHistoryItems.map((item) => {
                 const expanded = expandedHistoryId === item.id;
                 return (
-                  <Pressable
-                    key={item.id}
-                    onPress={() => setExpandedHistoryId((prev) => (prev === item.id ? null : item.id))}
-                    style={({ pressed }) => [styles.historyRow, pressed && styles.pressed]}
-                  >
-                    <Text style={styles.historyMain}>
-                      {new Date(item.startedAtMs).toLocaleString()} / {item.distanceKm.toFixed(2)}km / {formatYen(item.fareYen)}
-                    </Text>
-                    {expanded ? (
-                      <View style={styles.historyDetail}>
-                        <Text style={styles.historySub}>from: {formatLatLng(item.from)}</Text>
-                        <Text style={styles.historySub}>to: {formatLatLng(item.to)}</Text>
-                        <Text style={styles.historySub}>
-                          charges: distance={item.distanceChargeSteps}, time={item.timeChargeSteps}
-                        </Text>
-                        <Text style={styles.historySub}>
-                          samples: accepted={item.acceptedSamples}, filtered={item.filteredSamples}
-                        </Text>
+                  <View key={item.id} style={styles.historyItem}>
+                    <Pressable
+                      onPress={() => setExpandedHistoryId((prev) => (prev === item.id ? null : item.id))}
+                      style={({ pressed }) => [styles.historyRow, pressed && styles.pressed]}
+                    >
+                      <Text style={styles.historyMain}>
+                        {item.source === 'synthetic' ? '[仮想走行] ' : isSimulatedRide(item) ? '[シミュレーション] ' : ''}
+                        {new Date(item.startedAtMs).toLocaleString()} / {item.distanceKm.toFixed(2)}km / {formatYen(getRideTotalYen(item))}
+                        {item.extraCharges?.length || item.discounts?.length ? `（メーター ${formatYen(item.fareYen)}）` : ''}
+                      </Text>
+                      {item.notes || item.tags?.length || item.passengerCount !== undefined ? (
                         <Text style={styles.historySub}>
-                          pauses: {item.pauseLogs.length}, events: {item.events.length}
+                          {item.tags?.length ? `${item.tags.map((tag) => `#${tag}`).join(' ')} ` : ''}
+                          {item.passengerCount !== undefined ? `${item.passengerCount}名 ` : ''}
+                          {item.notes ?? ''}
                         </Text>
+                      ) : null}
+                      {expanded ? (
+                        <View style={styles.historyDetail}>
+                          <Text style={styles.historySub}>
+                            preset: {getPresetById(item.presetId, customPresets).label} / {FARE_MODEL_LABELS[item.fareModel ?? 'legacy']}
+                          </Text>
+                          {item.source === 'imported' ? (
+                            <Text style={styles.historySub}>source: {item.traceFileName ?? '取込ファイル'}</Text>
+                          ) : null}
+                          {item.source === 'synthetic' ? (
+                            <Text style={styles.historySub}>scenario: {item.scenario ?? '-'}</Text>
+                          ) : null}
+                          <Text style={styles.historySub}>from: {formatLatLng(item.from)}</Text>
+                          <Text style={styles.historySub}>to: {formatLatLng(item.to)}</Text>
+                          <Text style={styles.historySub}>
+                            charges: distance={item.distanceChargeSteps}, time={item.timeChargeSteps}, surcharge={item.surchargeChargeSteps ?? 0}
+                          </Text>
+                          <Text style={styles.historySub}>
+                            distance: measured={item.distanceKm.toFixed(2)}km, bridged={(item.bridgedDistanceKm ?? 0).toFixed(2)}km, method={DISTANCE_METHOD_LABELS[item.distanceMethod ?? 'spherical']}
+                          </Text>
+                          <Text style={styles.historySub}>
+                            samples: accepted={item.acceptedSamples}, filtered={item.filteredSamples}, track={item.track?.length ?? 0}pt, filter={GPS_FILTER_LABELS[item.gpsFilter ?? 'threshold']}
+                          </Text>
+                          <Text style={styles.historySub}>
+                            pauses: {item.pauseLogs.length}, events: {item.events.length}
+                            {item.recoveryGaps?.length
+                              ? `, recovered gaps: ${item.recoveryGaps
+                                  .map((gap) => `${formatDuration(gap.toMs - gap.fromMs)}(${gap.treatment === 'waiting' ? '待機' : '停止'})`)
+                                  .join(' ')}`
+                              : ''}
+                          </Text>
+                          {item.discounts?.length ? (
+                            <Text style={styles.historySub}>
+                              discounts:{' '}
+                              {item.discounts
+                                .map((discount) => `${discount.label} -${formatYen(discount.discountYen)}`)
+                                .join(', ')}
+                            </Text>
+                          ) : null}
+                          {item.extraCharges?.length ? (
+                            <Text style={styles.historySub}>
+                              extras:{' '}
+                              {item.extraCharges
+                                .map((charge) => `${EXTRA_CHARGE_LABELS[charge.category]} ${formatYen(charge.amountYen)}`)
+                                .join(', ')}
+                            </Text>
+                          ) : null}
+                          {renderRevisionComparison(item)}
+                          {renderAuditLog(item)}
+                        </View>
+                      ) : null}
+                    </Pressable>
+                    {expanded && editingHistoryId !== item.id ? (
+                      <View style={styles.pausedActionRow}>
+                        <Pressable
+                          onPress={() => setEditingHistoryId(item.id)}
+                          style={({ pressed }) => [styles.exportButton, styles.exportButtonHalf, pressed && styles.pressed]}
+                        >
+                          <Text style={styles.exportButtonText}>メモ・タグ・人数を編集 / 削除</Text>
+                        </Pressable>
+                        <Pressable
+                          onPress={() => void issueHistoryReceipt(item)}
+                          style={({ pressed }) => [styles.exportButton, styles.exportButtonHalf, pressed && styles.pressed]}
+                        >
+                          <Text style={styles.exportButtonText}>
+                            {item.receiptNumber !== undefined
+                              ? `領収書を再発行（No. ${formatReceiptNumber(item.receiptNumber)}）`
+                              : '領収書を発行'}
+                          </Text>
+                        </Pressable>
                       </View>
                     ) : null}
-                  </Pressable>
+                    {expanded && receiptPreview?.itemId === item.id ? (
+                      <Text style={styles.receiptText}>{receiptPreview.text}</Text>
+                    ) : null}
+                    {editingHistoryId === item.id ? (
+                      <HistoryItemEditor
+                        item={item}
+                        onSave={(annotations) => void saveHistoryAnnotations(item, annotations)}
+                        onDelete={() => void deleteHistoryItem(item)}
+                        onCancel={() => setEditingHistoryId(null)}
+                      />
+                    ) : null}
+                  </View>
                 );
               })
             )}
+            {visibleHistoryItems.length > 0 ? (
+              <Text style={styles.meta}>
+                {visibleHistoryItems.length} / {historyQueryActive ? (queryResults?.length ?? 0) : historyTotalCount} 件を表示
+              </Text>
+            ) : null}
+            {hasMoreHistory ? (
+              <Pressable
+                onPress={() => void loadMoreHistory()}
+                style={({ pressed }) => [styles.exportButton, pressed && styles.pressed]}
+              >
+                <Text style={styles.exportButtonText}>さらに読み込む</Text>
+              </Pressable>
+            ) : null}
           </View>
         </ScrollView>
         </View>
@@ -882,6 +2272,12 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     fontVariant: ['tabular-nums'],
   },
+  fareTotal: {
+    color: '#bbf7d0',
+    fontSize: 20,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
   value: {
     color: '#f9fafb',
     fontSize: 24,
@@ -893,6 +2289,9 @@ const styles = StyleSheet.create({
     fontSize: 22,
     fontWeight: '700',
   },
+  surchargeValue: {
+    color: '#facc15',
+  },
   meta: {
     color: '#6b7280',
     fontSize: 12,
@@ -919,7 +2318,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '700',
   },
-  presetRow: {
+  presetActionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 8,
   },
   presetButton: {
@@ -972,6 +2373,67 @@ const styles = StyleSheet.create({
     padding: 12,
     gap: 8,
   },
+  textInput: {
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    color: '#f9fafb',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontSize: 13,
+  },
+  receiptText: {
+    borderRadius: 8,
+    backgroundColor: '#f9fafb',
+    color: '#111827',
+    padding: 10,
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  scenarioInput: {
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    color: '#f9fafb',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontSize: 13,
+    minHeight: 48,
+  },
+  traceCard: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#374151',
+    backgroundColor: '#0b1220',
+    padding: 12,
+    gap: 8,
+  },
+  historyItem: {
+    gap: 4,
+  },
+  undoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#92400e',
+    backgroundColor: '#1c1407',
+    padding: 8,
+  },
+  undoText: {
+    flex: 1,
+    color: '#fde68a',
+    fontSize: 12,
+  },
+  undoButton: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#1d4ed8',
+    backgroundColor: '#1e3a8a',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
   historyRow: {
     borderRadius: 8,
     borderWidth: 1,
@@ -1023,6 +2485,9 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     alignItems: 'center',
   },
+  exportButtonHalf: {
+    flex: 1,
+  },
   exportButtonText: {
     color: '#dbeafe',
     fontSize: 12,
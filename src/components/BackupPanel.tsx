@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { BACKUP_PART_LABELS, BACKUP_PARTS, BackupInspection, BackupPart } from '../lib/backup';
+
+// Errors beyond this per part are summarised as a count.
+const MAX_LISTED_ERRORS = 3;
+
+export function BackupPanel(props: {
+  files: string[];
+  inspection: BackupInspection | null;
+  canRestore: boolean;
+  onCreate: () => void;
+  onRefresh: () => void;
+  onSelectFile: (fileName: string) => void;
+  onRestore: (parts: BackupPart[]) => void;
+}) {
+  const { files, inspection, canRestore, onCreate, onRefresh, onSelectFile, onRestore } = props;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.actionRow}>
+        <Pressable onPress={onCreate} style={({ pressed }) => [styles.exportButton, pressed && styles.pressed]}>
+          <Text style={styles.exportButtonText}>バックアップを作成</Text>
+        </Pressable>
+        <Pressable onPress={onRefresh} style={({ pressed }) => [styles.chip, pressed && styles.pressed]}>
+          <Text style={styles.chipText}>再読み込み</Text>
+        </Pressable>
+      </View>
+      {files.length === 0 ? (
+        <Text style={styles.hint}>書類フォルダにバックアップ（app-backup-*.json）がありません</Text>
+      ) : (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.fileRow}>
+          {files.map((fileName) => {
+            const active = inspection?.fileName === fileName;
+            return (
+              <Pressable
+                key={fileName}
+                onPress={() => onSelectFile(fileName)}
+                style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && styles.pressed]}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>{fileName}</Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+      )}
+      {inspection ? (
+        <BackupRestoreForm
+          key={inspection.fileName}
+          inspection={inspection}
+          canRestore={canRestore}
+          onRestore={onRestore}
+        />
+      ) : null}
+    </View>
+  );
+}
+
+function BackupRestoreForm(props: {
+  inspection: BackupInspection;
+  canRestore: boolean;
+  onRestore: (parts: BackupPart[]) => void;
+}) {
+  const { inspection, canRestore, onRestore } = props;
+  const [selected, setSelected] = useState<BackupPart[]>(() =>
+    BACKUP_PARTS.filter((part) => inspection.parts[part].errors.length === 0)
+  );
+
+  const toggle = (part: BackupPart) =>
+    setSelected((prev) => (prev.includes(part) ? prev.filter((item) => item !== part) : [...prev, part]));
+  const restorable = canRestore && selected.length > 0;
+
+  return (
+    <View style={styles.form}>
+      <Text style={styles.label}>
+        作成: {inspection.createdAtMs > 0 ? new Date(inspection.createdAtMs).toLocaleString() : '不明'}
+      </Text>
+      {BACKUP_PARTS.map((part) => {
+        const check = inspection.parts[part];
+        const valid = check.errors.length === 0;
+        const active = selected.includes(part);
+        return (
+          <View key={part} style={styles.partRow}>
+            <Pressable
+              onPress={() => toggle(part)}
+              disabled={!valid}
+              style={({ pressed }) => [
+                styles.chip,
+                active && styles.chipActive,
+                !valid && styles.disabled,
+                pressed && styles.pressed,
+              ]}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {BACKUP_PART_LABELS[part]}（{check.count}件）
+              </Text>
+            </Pressable>
+            {check.errors.slice(0, MAX_LISTED_ERRORS).map((error) => (
+              <Text key={error} style={styles.error}>
+                {error}
+              </Text>
+            ))}
+            {check.errors.length > MAX_LISTED_ERRORS ? (
+              <Text style={styles.error}>ほか {check.errors.length - MAX_LISTED_ERRORS} 件</Text>
+            ) : null}
+          </View>
+        );
+      })}
+      <Text style={styles.hint}>
+        {canRestore
+          ? '選んだ項目を置き換えます。復元前の状態は自動でバックアップされます'
+          : 'セッション中は復元できません'}
+      </Text>
+      <Pressable
+        onPress={() => onRestore(selected)}
+        disabled={!restorable}
+        style={({ pressed }) => [styles.restoreButton, !restorable && styles.disabled, pressed && styles.pressed]}
+      >
+        <Text style={styles.restoreText}>選んだ項目を復元</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#374151',
+    backgroundColor: '#0b1220',
+    padding: 12,
+    gap: 6,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  label: {
+    color: '#9ca3af',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  hint: {
+    color: '#6b7280',
+    fontSize: 11,
+  },
+  fileRow: {
+    gap: 8,
+  },
+  form: {
+    gap: 6,
+    marginTop: 4,
+  },
+  partRow: {
+    gap: 2,
+    alignItems: 'flex-start',
+  },
+  chip: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+  },
+  chipActive: {
+    borderColor: '#22c55e',
+    backgroundColor: '#052e16',
+  },
+  chipText: {
+    color: '#e5e7eb',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  chipTextActive: {
+    color: '#bbf7d0',
+  },
+  error: {
+    color: '#fca5a5',
+    fontSize: 11,
+    paddingLeft: 8,
+  },
+  exportButton: {
+    flex: 1,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#1d4ed8',
+    backgroundColor: '#1e3a8a',
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  exportButtonText: {
+    color: '#dbeafe',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  restoreButton: {
+    borderRadius: 8,
+    backgroundColor: '#15803d',
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  restoreText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  pressed: {
+    opacity: 0.85,
+  },
+});
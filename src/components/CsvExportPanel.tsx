@@ -0,0 +1,149 @@
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+
+import {
+  CSV_COLUMNS,
+  CSV_ROW_MODE_LABELS,
+  CsvColumnId,
+  CsvRowMode,
+  REQUIRED_CSV_COLUMNS,
+} from '../lib/csvExport';
+
+export function CsvExportPanel(props: {
+  columns: CsvColumnId[];
+  rowMode: CsvRowMode;
+  onChange: (next: { columns: CsvColumnId[]; rowMode: CsvRowMode }) => void;
+  onExport: () => void;
+}) {
+  const { columns, rowMode, onChange, onExport } = props;
+
+  const toggleColumn = (id: CsvColumnId) => {
+    const next = columns.includes(id) ? columns.filter((column) => column !== id) : [...columns, id];
+    onChange({ columns: next, rowMode });
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.label}>出力する列</Text>
+      <View style={styles.chipRow}>
+        {CSV_COLUMNS.map((column) => {
+          const required = REQUIRED_CSV_COLUMNS.includes(column.id);
+          const active = required || columns.includes(column.id);
+          return (
+            <Pressable
+              key={column.id}
+              onPress={() => toggleColumn(column.id)}
+              disabled={required}
+              style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && styles.pressed]}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{column.label}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <Text style={styles.hint}>ID列は再インポート時の照合に使うため常に出力します</Text>
+
+      <Text style={styles.label}>行の単位</Text>
+      <View style={styles.chipRow}>
+        {(Object.keys(CSV_ROW_MODE_LABELS) as CsvRowMode[]).map((mode) => {
+          const active = rowMode === mode;
+          return (
+            <Pressable
+              key={mode}
+              onPress={() => onChange({ columns, rowMode: mode })}
+              style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && styles.pressed]}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {CSV_ROW_MODE_LABELS[mode]}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      <Text style={styles.hint}>
+        {rowMode === 'event'
+          ? '開始・一時停止・再開などのイベントを1行ずつ出力し、選んだ列を各行に繰り返します'
+          : '1走行を1行として出力します'}
+      </Text>
+
+      <Pressable
+        onPress={onExport}
+        disabled={columns.length === 0}
+        style={({ pressed }) => [
+          styles.exportButton,
+          columns.length === 0 && styles.exportButtonDisabled,
+          pressed && styles.pressed,
+        ]}
+      >
+        <Text style={styles.exportButtonText}>
+          {columns.length === 0 ? '列を1つ以上選んでください' : 'CSVを書き出す（現在の絞り込み条件）'}
+        </Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#374151',
+    backgroundColor: '#0b1220',
+    padding: 12,
+    gap: 6,
+  },
+  label: {
+    color: '#9ca3af',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  hint: {
+    color: '#6b7280',
+    fontSize: 11,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+  },
+  chipActive: {
+    borderColor: '#22c55e',
+    backgroundColor: '#052e16',
+  },
+  chipText: {
+    color: '#e5e7eb',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  chipTextActive: {
+    color: '#bbf7d0',
+  },
+  exportButton: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#1d4ed8',
+    backgroundColor: '#1e3a8a',
+    paddingVertical: 8,
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  exportButtonDisabled: {
+    opacity: 0.5,
+  },
+  exportButtonText: {
+    color: '#dbeafe',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  pressed: {
+    opacity: 0.85,
+  },
+});
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { describeDiscountRule, DiscountRule } from '../lib/discounts';
+
+export function DiscountPanel(props: {
+  // Preset rules, the catalog and coupons added to this ride.
+  rules: DiscountRule[];
+  selectedIds: string[];
+  onToggle: (rule: DiscountRule) => void;
+  onAddCoupon: (amountYen: number) => void;
+}) {
+  const { rules, selectedIds, onToggle, onAddCoupon } = props;
+  const [couponText, setCouponText] = useState('');
+
+  const couponYen = Number(couponText);
+  const couponError =
+    couponText.trim() === '' || (Number.isInteger(couponYen) && couponYen >= 1)
+      ? null
+      : 'クーポン額は1円以上の整数で入力してください';
+  const canAdd = couponText.trim() !== '' && couponError === null;
+
+  const addCoupon = () => {
+    if (!canAdd) return;
+    onAddCoupon(couponYen);
+    setCouponText('');
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.label}>割引</Text>
+      <View style={styles.chipRow}>
+        {rules.map((rule) => {
+          const active = selectedIds.includes(rule.id);
+          return (
+            <Pressable
+              key={rule.id}
+              onPress={() => onToggle(rule)}
+              style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && styles.pressed]}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{rule.label}</Text>
+              <Text style={styles.chipDetail}>{describeDiscountRule(rule)}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      <View style={styles.inputRow}>
+        <TextInput
+          value={couponText}
+          onChangeText={setCouponText}
+          keyboardType="number-pad"
+          placeholder="クーポン額（円）"
+          placeholderTextColor="#6b7280"
+          style={[styles.input, couponError !== null && styles.inputInvalid]}
+        />
+        <Pressable
+          onPress={addCoupon}
+          disabled={!canAdd}
+          style={({ pressed }) => [styles.addButton, !canAdd && styles.disabled, pressed && styles.pressed]}
+        >
+          <Text style={styles.addText}>クーポン追加</Text>
+        </Pressable>
+      </View>
+      {couponError ? <Text style={styles.error}>{couponError}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#374151',
+    backgroundColor: '#0b1220',
+    padding: 12,
+    gap: 6,
+  },
+  label: {
+    color: '#9ca3af',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+  },
+  chipActive: {
+    borderColor: '#22c55e',
+    backgroundColor: '#052e16',
+  },
+  chipText: {
+    color: '#e5e7eb',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  chipTextActive: {
+    color: '#bbf7d0',
+  },
+  chipDetail: {
+    color: '#9ca3af',
+    fontSize: 10,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    color: '#f9fafb',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontSize: 14,
+  },
+  inputInvalid: {
+    borderColor: '#f87171',
+  },
+  addButton: {
+    borderRadius: 8,
+    backgroundColor: '#15803d',
+    paddingVertical: 8,
+    paddingHorizontal: 18,
+    alignItems: 'center',
+  },
+  addText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  error: {
+    color: '#fca5a5',
+    fontSize: 12,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  pressed: {
+    opacity: 0.85,
+  },
+});
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import {
+  EXTRA_CHARGE_CATEGORIES,
+  EXTRA_CHARGE_LABELS,
+  ExtraCharge,
+  ExtraChargeCategory,
+  validateExtraChargeAmount,
+} from '../lib/extraCharges';
+import { formatYen } from '../lib/fare';
+
+export function ExtraChargePanel(props: {
+  charges: ExtraCharge[];
+  onAdd: (category: ExtraChargeCategory, amountYen: number) => void;
+  onRemove: (charge: ExtraCharge) => void;
+}) {
+  const { charges, onAdd, onRemove } = props;
+  const [category, setCategory] = useState<ExtraChargeCategory>('toll');
+  const [amountText, setAmountText] = useState('');
+
+  const amountYen = Number(amountText);
+  const amountError = amountText.trim() === '' ? null : validateExtraChargeAmount(amountYen);
+  const canAdd = amountText.trim() !== '' && amountError === null;
+
+  const add = () => {
+    if (!canAdd) return;
+    onAdd(category, amountYen);
+    setAmountText('');
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.label}>追加料金</Text>
+      <View style={styles.chipRow}>
+        {EXTRA_CHARGE_CATEGORIES.map((item) => {
+          const active = category === item;
+          return (
+            <Pressable
+              key={item}
+              onPress={() => setCategory(item)}
+              style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && styles.pressed]}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{EXTRA_CHARGE_LABELS[item]}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      <View style={styles.inputRow}>
+        <TextInput
+          value={amountText}
+          onChangeText={setAmountText}
+          keyboardType="number-pad"
+          placeholder="金額（円）"
+          placeholderTextColor="#6b7280"
+          style={[styles.input, amountError !== null && styles.inputInvalid]}
+        />
+        <Pressable
+          onPress={add}
+          disabled={!canAdd}
+          style={({ pressed }) => [styles.addButton, !canAdd && styles.disabled, pressed && styles.pressed]}
+        >
+          <Text style={styles.addText}>追加</Text>
+        </Pressable>
+      </View>
+      {amountError ? <Text style={styles.error}>{amountError}</Text> : null}
+
+      {charges.map((charge) => (
+        <View key={charge.id} style={styles.chargeRow}>
+          <Text style={styles.chargeText}>
+            {new Date(charge.atMs).toLocaleTimeString()} {EXTRA_CHARGE_LABELS[charge.category]} {formatYen(charge.amountYen)}
+          </Text>
+          <Pressable onPress={() => onRemove(charge)} style={({ pressed }) => [styles.chip, pressed && styles.pressed]}>
+            <Text style={styles.chipText}>取消</Text>
+          </Pressable>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#374151',
+    backgroundColor: '#0b1220',
+    padding: 12,
+    gap: 6,
+  },
+  label: {
+    color: '#9ca3af',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+  },
+  chipActive: {
+    borderColor: '#22c55e',
+    backgroundColor: '#052e16',
+  },
+  chipText: {
+    color: '#e5e7eb',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  chipTextActive: {
+    color: '#bbf7d0',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    color: '#f9fafb',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontSize: 14,
+  },
+  inputInvalid: {
+    borderColor: '#f87171',
+  },
+  addButton: {
+    borderRadius: 8,
+    backgroundColor: '#15803d',
+    paddingVertical: 8,
+    paddingHorizontal: 18,
+    alignItems: 'center',
+  },
+  addText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  error: {
+    color: '#fca5a5',
+    fontSize: 12,
+  },
+  chargeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  chargeText: {
+    color: '#d1d5db',
+    fontSize: 13,
+    flexShrink: 1,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  pressed: {
+    opacity: 0.85,
+  },
+});
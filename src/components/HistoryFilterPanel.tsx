@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { FarePreset } from '../lib/fare';
+import {
+  DEFAULT_HISTORY_QUERY,
+  formatDateInput,
+  HISTORY_SORT_LABELS,
+  HistoryQuery,
+  HistorySortKey,
+  parseDateInput,
+  parseNumberInput,
+  RIDE_KIND_LABELS,
+  RideKindFilter,
+} from '../lib/historyQuery';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RangeField = 'fromDate' | 'toDate' | 'minFare' | 'maxFare' | 'minDistance' | 'maxDistance';
+
+type RangeDrafts = Record<RangeField, string>;
+
+function toDrafts(query: HistoryQuery): RangeDrafts {
+  const format = (value: number | null) => (value === null ? '' : String(value));
+  return {
+    fromDate: formatDateInput(query.fromMs),
+    // toMs is exclusive; the field shows the last included day.
+    toDate: formatDateInput(query.toMs === null ? null : query.toMs - DAY_MS),
+    minFare: format(query.minFareYen),
+    maxFare: format(query.maxFareYen),
+    minDistance: format(query.minDistanceKm),
+    maxDistance: format(query.maxDistanceKm),
+  };
+}
+
+// Applies a parsed field to the query; undefined means the text is not valid yet.
+function applyDraft(query: HistoryQuery, field: RangeField, text: string): HistoryQuery | undefined {
+  if (field === 'fromDate' || field === 'toDate') {
+    const atMs = parseDateInput(text);
+    if (atMs === undefined) return undefined;
+    return field === 'fromDate'
+      ? { ...query, fromMs: atMs }
+      : { ...query, toMs: atMs === null ? null : atMs + DAY_MS };
+  }
+
+  const value = parseNumberInput(text);
+  if (value === undefined) return undefined;
+  switch (field) {
+    case 'minFare':
+      return { ...query, minFareYen: value };
+    case 'maxFare':
+      return { ...query, maxFareYen: value };
+    case 'minDistance':
+      return { ...query, minDistanceKm: value };
+    default:
+      return { ...query, maxDistanceKm: value };
+  }
+}
+
+export function HistoryFilterPanel(props: {
+  query: HistoryQuery;
+  presets: FarePreset[];
+  resultCount: number | null;
+  onChange: (query: HistoryQuery) => void;
+}) {
+  const { query, presets, resultCount, onChange } = props;
+  const [drafts, setDrafts] = useState<RangeDrafts>(() => toDrafts(query));
+  const [invalidFields, setInvalidFields] = useState<RangeField[]>([]);
+
+  const updateDraft = (field: RangeField, text: string) => {
+    setDrafts((prev) => ({ ...prev, [field]: text }));
+    const next = applyDraft(query, field, text);
+    setInvalidFields((prev) =>
+      next === undefined ? [...prev.filter((f) => f !== field), field] : prev.filter((f) => f !== field)
+    );
+    if (next) onChange(next);
+  };
+
+  const togglePreset = (presetId: string) => {
+    const presetIds = query.presetIds.includes(presetId)
+      ? query.presetIds.filter((id) => id !== presetId)
+      : [...query.presetIds, presetId];
+    onChange({ ...query, presetIds });
+  };
+
+  const reset = () => {
+    setDrafts(toDrafts(DEFAULT_HISTORY_QUERY));
+    setInvalidFields([]);
+    onChange(DEFAULT_HISTORY_QUERY);
+  };
+
+  const renderRangeRow = (label: string, minField: RangeField, maxField: RangeField, placeholder: string) => (
+    <View style={styles.fieldRow}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        value={drafts[minField]}
+        onChangeText={(text) => updateDraft(minField, text)}
+        placeholder={placeholder}
+        placeholderTextColor="#6b7280"
+        keyboardType={minField.endsWith('Date') ? 'default' : 'decimal-pad'}
+        style={[styles.input, invalidFields.includes(minField) && styles.inputInvalid]}
+      />
+      <Text style={styles.fieldLabel}>〜</Text>
+      <TextInput
+        value={drafts[maxField]}
+        onChangeText={(text) => updateDraft(maxField, text)}
+        placeholder={placeholder}
+        placeholderTextColor="#6b7280"
+        keyboardType={maxField.endsWith('Date') ? 'default' : 'decimal-pad'}
+        style={[styles.input, invalidFields.includes(maxField) && styles.inputInvalid]}
+      />
+    </View>
+  );
+
+  return (
+    <View style={styles.card}>
+      <TextInput
+        value={query.text}
+        onChangeText={(text) => onChange({ ...query, text })}
+        placeholder="メモ・タグを検索"
+        placeholderTextColor="#6b7280"
+        style={styles.search}
+      />
+      {renderRangeRow('期間', 'fromDate', 'toDate', 'YYYY-MM-DD')}
+      {renderRangeRow('運賃', 'minFare', 'maxFare', '円')}
+      {renderRangeRow('距離', 'minDistance', 'maxDistance', 'km')}
+      {invalidFields.length > 0 ? (
+        <Text style={styles.error}>日付は YYYY-MM-DD、金額・距離は数値で入力してください</Text>
+      ) : null}
+
+      <Text style={styles.label}>プリセット（未選択はすべて）</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.presetRow}>
+        {presets.map((preset) => {
+          const active = query.presetIds.includes(preset.id);
+          return (
+            <Pressable
+              key={preset.id}
+              onPress={() => togglePreset(preset.id)}
+              style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && styles.pressed]}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{preset.label}</Text>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+
+      <Text style={styles.label}>種別</Text>
+      <View style={styles.chipRow}>
+        {(Object.keys(RIDE_KIND_LABELS) as RideKindFilter[]).map((rideKind) => {
+          const active = query.rideKind === rideKind;
+          return (
+            <Pressable
+              key={rideKind}
+              onPress={() => onChange({ ...query, rideKind })}
+              style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && styles.pressed]}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {RIDE_KIND_LABELS[rideKind]}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <Text style={styles.label}>並び順</Text>
+      <View style={styles.chipRow}>
+        {(Object.keys(HISTORY_SORT_LABELS) as HistorySortKey[]).map((sortKey) => {
+          const active = query.sortKey === sortKey;
+          return (
+            <Pressable
+              key={sortKey}
+              onPress={() => onChange({ ...query, sortKey })}
+              style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && styles.pressed]}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {HISTORY_SORT_LABELS[sortKey]}
+              </Text>
+            </Pressable>
+          );
+        })}
+        <Pressable
+          onPress={() =>
+            onChange({ ...query, sortDirection: query.sortDirection === 'desc' ? 'asc' : 'desc' })
+          }
+          style={({ pressed }) => [styles.chip, pressed && styles.pressed]}
+        >
+          <Text style={styles.chipText}>{query.sortDirection === 'desc' ? '降順' : '昇順'}</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.footerRow}>
+        <Text style={styles.resultText}>
+          {resultCount === null ? '検索中…' : `該当 ${resultCount} 件`}
+        </Text>
+        <Pressable onPress={reset} style={({ pressed }) => [styles.resetButton, pressed && styles.pressed]}>
+          <Text style={styles.chipText}>条件をリセット</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#374151',
+    backgroundColor: '#0b1220',
+    padding: 12,
+    gap: 6,
+  },
+  label: {
+    color: '#9ca3af',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  search: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    color: '#f9fafb',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    fontSize: 13,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  fieldLabel: {
+    color: '#d1d5db',
+    fontSize: 13,
+    flexShrink: 0,
+    minWidth: 12,
+  },
+  input: {
+    flex: 1,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    color: '#f9fafb',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    fontSize: 13,
+  },
+  inputInvalid: {
+    borderColor: '#f87171',
+  },
+  error: {
+    color: '#fca5a5',
+    fontSize: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  presetRow: {
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+  },
+  chipActive: {
+    borderColor: '#22c55e',
+    backgroundColor: '#052e16',
+  },
+  chipText: {
+    color: '#e5e7eb',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  chipTextActive: {
+    color: '#bbf7d0',
+  },
+  footerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 2,
+  },
+  resultText: {
+    color: '#d1d5db',
+    fontSize: 13,
+  },
+  resetButton: {
+    borderRadius: 8,
+    backgroundColor: '#374151',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  pressed: {
+    opacity: 0.85,
+  },
+});
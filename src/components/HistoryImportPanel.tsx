@@ -0,0 +1,171 @@
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { HistoryImportPlan } from '../lib/historyImport';
+
+// Conflicts and invalid records beyond this are summarised as a count.
+const MAX_LISTED_ISSUES = 5;
+
+export function HistoryImportPanel(props: {
+  files: string[];
+  selectedFile: string | null;
+  plan: HistoryImportPlan | null;
+  onRefresh: () => void;
+  onSelectFile: (fileName: string) => void;
+  onApply: () => void;
+}) {
+  const { files, selectedFile, plan, onRefresh, onSelectFile, onApply } = props;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Text style={styles.label}>書類フォルダの JSON / CSV</Text>
+        <Pressable onPress={onRefresh} style={({ pressed }) => [styles.chip, pressed && styles.pressed]}>
+          <Text style={styles.chipText}>再読み込み</Text>
+        </Pressable>
+      </View>
+      {files.length === 0 ? (
+        <Text style={styles.hint}>取り込めるファイルがありません（エクスポートしたファイルを書類フォルダに置いてください）</Text>
+      ) : (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.fileRow}>
+          {files.map((fileName) => {
+            const active = selectedFile === fileName;
+            return (
+              <Pressable
+                key={fileName}
+                onPress={() => onSelectFile(fileName)}
+                style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && styles.pressed]}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>{fileName}</Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      {plan ? (
+        <View style={styles.summary}>
+          <Text style={styles.summaryTitle}>
+            確認（まだ書き込んでいません）: {plan.recordCount} 件中
+          </Text>
+          <Text style={styles.summaryText}>追加: {plan.toAdd.length} 件</Text>
+          <Text style={styles.summaryText}>重複（同じ内容）: {plan.duplicateCount} 件 → スキップ</Text>
+          <Text style={styles.summaryText}>競合（同じIDで内容が異なる）: {plan.conflicts.length} 件 → 端末の記録を保持</Text>
+          {plan.conflicts.slice(0, MAX_LISTED_ISSUES).map((conflict) => (
+            <Text key={conflict.id} style={styles.issue}>
+              {new Date(Number(conflict.id.split('-')[0])).toLocaleString()}: {conflict.fields.join(', ')}
+            </Text>
+          ))}
+          {plan.conflicts.length > MAX_LISTED_ISSUES ? (
+            <Text style={styles.issue}>ほか {plan.conflicts.length - MAX_LISTED_ISSUES} 件</Text>
+          ) : null}
+          <Text style={styles.summaryText}>不正: {plan.invalid.length} 件 → スキップ</Text>
+          {plan.invalid.slice(0, MAX_LISTED_ISSUES).map((entry) => (
+            <Text key={entry.position} style={styles.issue}>
+              {plan.format === 'csv' ? `${entry.position}行目` : `${entry.position}件目`}: {entry.reasons.join(' / ')}
+            </Text>
+          ))}
+          {plan.invalid.length > MAX_LISTED_ISSUES ? (
+            <Text style={styles.issue}>ほか {plan.invalid.length - MAX_LISTED_ISSUES} 件</Text>
+          ) : null}
+          <Pressable
+            onPress={onApply}
+            disabled={plan.toAdd.length === 0}
+            style={({ pressed }) => [
+              styles.applyButton,
+              plan.toAdd.length === 0 && styles.applyButtonDisabled,
+              pressed && styles.pressed,
+            ]}
+          >
+            <Text style={styles.applyText}>
+              {plan.toAdd.length === 0 ? '追加する履歴はありません' : `${plan.toAdd.length} 件を取り込む`}
+            </Text>
+          </Pressable>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#374151',
+    backgroundColor: '#0b1220',
+    padding: 12,
+    gap: 6,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    color: '#9ca3af',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  hint: {
+    color: '#6b7280',
+    fontSize: 11,
+  },
+  fileRow: {
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+  },
+  chipActive: {
+    borderColor: '#22c55e',
+    backgroundColor: '#052e16',
+  },
+  chipText: {
+    color: '#e5e7eb',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  chipTextActive: {
+    color: '#bbf7d0',
+  },
+  summary: {
+    gap: 2,
+    marginTop: 4,
+  },
+  summaryTitle: {
+    color: '#e5e7eb',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  summaryText: {
+    color: '#d1d5db',
+    fontSize: 12,
+  },
+  issue: {
+    color: '#fca5a5',
+    fontSize: 11,
+    paddingLeft: 8,
+  },
+  applyButton: {
+    borderRadius: 8,
+    backgroundColor: '#15803d',
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  applyButtonDisabled: {
+    opacity: 0.5,
+  },
+  applyText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  pressed: {
+    opacity: 0.85,
+  },
+});
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { DriveHistoryItem, getHistoryAnnotations, HistoryAnnotations, parseTagsInput } from '../lib/history';
+
+const MAX_PASSENGER_COUNT = 20;
+
+export function HistoryItemEditor(props: {
+  item: DriveHistoryItem;
+  onSave: (annotations: HistoryAnnotations) => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}) {
+  const { item, onSave, onDelete, onCancel } = props;
+  const initial = getHistoryAnnotations(item);
+  const [notes, setNotes] = useState(initial.notes);
+  const [tagsText, setTagsText] = useState(initial.tags.join(', '));
+  const [passengerText, setPassengerText] = useState(
+    initial.passengerCount === null ? '' : String(initial.passengerCount)
+  );
+
+  const passengerCount = passengerText.trim() === '' ? null : Number(passengerText);
+  const passengerError =
+    passengerCount !== null &&
+    (!Number.isInteger(passengerCount) || passengerCount < 0 || passengerCount > MAX_PASSENGER_COUNT)
+      ? `乗車人数は 0〜${MAX_PASSENGER_COUNT} の整数で入力してください`
+      : null;
+
+  const save = () => {
+    if (passengerError) return;
+    onSave({ notes: notes.trim(), tags: parseTagsInput(tagsText), passengerCount });
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.label}>メモ</Text>
+      <TextInput
+        value={notes}
+        onChangeText={setNotes}
+        multiline
+        placeholder="例: 空港送迎、領収書発行済み"
+        placeholderTextColor="#6b7280"
+        style={[styles.input, styles.notesInput]}
+      />
+      <View style={styles.fieldRow}>
+        <Text style={styles.fieldLabel}>タグ</Text>
+        <TextInput
+          value={tagsText}
+          onChangeText={setTagsText}
+          placeholder="カンマ・空白区切り（例: テスト, 経費）"
+          placeholderTextColor="#6b7280"
+          style={styles.input}
+        />
+      </View>
+      <View style={styles.fieldRow}>
+        <Text style={styles.fieldLabel}>乗車人数</Text>
+        <TextInput
+          value={passengerText}
+          onChangeText={setPassengerText}
+          keyboardType="number-pad"
+          placeholder="未入力"
+          placeholderTextColor="#6b7280"
+          style={styles.input}
+        />
+      </View>
+      {passengerError ? <Text style={styles.error}>{passengerError}</Text> : null}
+
+      <View style={styles.actionRow}>
+        <Pressable
+          onPress={save}
+          disabled={passengerError !== null}
+          style={({ pressed }) => [styles.actionButton, styles.saveButton, pressed && styles.pressed]}
+        >
+          <Text style={styles.actionText}>保存</Text>
+        </Pressable>
+        <Pressable
+          onPress={onCancel}
+          style={({ pressed }) => [styles.actionButton, styles.cancelButton, pressed && styles.pressed]}
+        >
+          <Text style={styles.actionText}>キャンセル</Text>
+        </Pressable>
+        <Pressable
+          onPress={onDelete}
+          style={({ pressed }) => [styles.actionButton, styles.deleteButton, pressed && styles.pressed]}
+        >
+          <Text style={styles.actionText}>削除</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#374151',
+    backgroundColor: '#0b1220',
+    padding: 12,
+    gap: 6,
+  },
+  label: {
+    color: '#9ca3af',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  fieldLabel: {
+    color: '#d1d5db',
+    fontSize: 13,
+    flexShrink: 0,
+    minWidth: 56,
+  },
+  input: {
+    flex: 1,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    color: '#f9fafb',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    fontSize: 13,
+  },
+  notesInput: {
+    minHeight: 56,
+    textAlignVertical: 'top',
+  },
+  error: {
+    color: '#fca5a5',
+    fontSize: 12,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 4,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  saveButton: {
+    backgroundColor: '#15803d',
+  },
+  cancelButton: {
+    backgroundColor: '#374151',
+  },
+  deleteButton: {
+    backgroundColor: '#991b1b',
+  },
+  actionText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  pressed: {
+    opacity: 0.85,
+  },
+});
@@ -0,0 +1,613 @@
+import { useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import {
+  createCouponRule,
+  DISCOUNT_KIND_LABELS,
+  DISCOUNT_KINDS,
+  DISCOUNT_RULE_CATALOG,
+  DiscountKind,
+  DiscountRule,
+  ROUNDING_MODE_LABELS,
+  ROUNDING_MODES,
+  ROUNDING_UNITS_YEN,
+  RoundingMode,
+} from '../lib/discounts';
+import { FARE_MODEL_LABELS, FareModel, FarePreset, formatMinuteOfDay, SurchargeWindow } from '../lib/fare';
+import { validateFarePreset } from '../lib/presets';
+
+type NumericPresetField = 'baseFareYen' | 'baseDistanceKm' | 'lowSpeedThresholdKmh';
+
+const NUMERIC_FIELDS: { key: NumericPresetField; label: string }[] = [
+  { key: 'baseFareYen', label: '初乗り運賃（円）' },
+  { key: 'baseDistanceKm', label: '初乗り距離（km）' },
+  { key: 'lowSpeedThresholdKmh', label: '低速判定速度（km/h）' },
+];
+
+type BandKind = 'distanceBands' | 'timeBands';
+
+const BAND_SECTIONS: { kind: BandKind; title: string; fromLabel: string; stepLabel: string }[] = [
+  { kind: 'distanceBands', title: '距離加算', fromLabel: 'km〜', stepLabel: 'kmごと' },
+  { kind: 'timeBands', title: '時間加算', fromLabel: '秒〜', stepLabel: '秒ごと' },
+];
+
+type BandDraft = {
+  from: string;
+  step: string;
+  fare: string;
+};
+
+type SurchargeDraft = {
+  label: string;
+  start: string;
+  end: string;
+  ratePercent: string;
+};
+
+type DiscountDraft = {
+  id: string;
+  label: string;
+  kind: DiscountKind;
+  ratePercent: string;
+  threshold: string;
+  amount: string;
+  roundingUnitYen: number;
+  roundingMode: RoundingMode;
+};
+
+type PresetDraft = {
+  label: string;
+  fareModel: FareModel;
+  numbers: Record<NumericPresetField, string>;
+  distanceBands: BandDraft[];
+  timeBands: BandDraft[];
+  surcharges: SurchargeDraft[];
+  discounts: DiscountDraft[];
+};
+
+function toDiscountDraft(rule: DiscountRule): DiscountDraft {
+  return {
+    id: rule.id,
+    label: rule.label,
+    kind: rule.kind,
+    ratePercent: String(Math.round(rule.rate * 1000) / 10),
+    threshold: String(rule.thresholdYen),
+    amount: String(rule.amountYen),
+    roundingUnitYen: rule.roundingUnitYen,
+    roundingMode: rule.roundingMode,
+  };
+}
+
+function toDraft(preset: FarePreset): PresetDraft {
+  const numbers = {} as Record<NumericPresetField, string>;
+  NUMERIC_FIELDS.forEach(({ key }) => {
+    numbers[key] = String(preset[key]);
+  });
+  return {
+    label: preset.label,
+    fareModel: preset.fareModel,
+    numbers,
+    distanceBands: preset.distanceBands.map((band) => ({
+      from: String(band.fromKm),
+      step: String(band.stepKm),
+      fare: String(band.stepFareYen),
+    })),
+    timeBands: preset.timeBands.map((band) => ({
+      from: String(band.fromSeconds),
+      step: String(band.stepSeconds),
+      fare: String(band.stepFareYen),
+    })),
+    surcharges: preset.surchargeWindows.map((window) => ({
+      label: window.label,
+      start: formatMinuteOfDay(window.startMinuteOfDay),
+      end: formatMinuteOfDay(window.endMinuteOfDay),
+      ratePercent: String(Math.round(window.rate * 100)),
+    })),
+    discounts: (preset.discountRules ?? []).map(toDiscountDraft),
+  };
+}
+
+function parseNumber(value: string): number {
+  return value.trim().length === 0 ? Number.NaN : Number(value);
+}
+
+function parseMinuteOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return Number.NaN;
+  const h = Number(match[1]);
+  const m = Number(match[2]);
+  if (h > 23 || m > 59) return Number.NaN;
+  return h * 60 + m;
+}
+
+function fromDraft(base: FarePreset, draft: PresetDraft): FarePreset {
+  const next: FarePreset = {
+    ...base,
+    label: draft.label.trim(),
+    fareModel: draft.fareModel,
+    distanceBands: draft.distanceBands.map((band) => ({
+      fromKm: parseNumber(band.from),
+      stepKm: parseNumber(band.step),
+      stepFareYen: parseNumber(band.fare),
+    })),
+    timeBands: draft.timeBands.map((band) => ({
+      fromSeconds: parseNumber(band.from),
+      stepSeconds: parseNumber(band.step),
+      stepFareYen: parseNumber(band.fare),
+    })),
+    surchargeWindows: draft.surcharges.map(
+      (surcharge): SurchargeWindow => ({
+        label: surcharge.label.trim() || '割増',
+        startMinuteOfDay: parseMinuteOfDay(surcharge.start),
+        endMinuteOfDay: parseMinuteOfDay(surcharge.end),
+        rate: parseNumber(surcharge.ratePercent) / 100,
+      })
+    ),
+    // Fields a kind does not use are stored as 0.
+    discountRules: draft.discounts.map(
+      (discount): DiscountRule => ({
+        id: discount.id,
+        label: discount.label.trim(),
+        kind: discount.kind,
+        rate: discount.kind === 'coupon' ? 0 : parseNumber(discount.ratePercent) / 100,
+        thresholdYen: discount.kind === 'long_distance' ? parseNumber(discount.threshold) : 0,
+        amountYen: discount.kind === 'coupon' ? parseNumber(discount.amount) : 0,
+        roundingUnitYen: discount.roundingUnitYen,
+        roundingMode: discount.roundingMode,
+      })
+    ),
+  };
+  NUMERIC_FIELDS.forEach(({ key }) => {
+    next[key] = parseNumber(draft.numbers[key]);
+  });
+  return next;
+}
+
+export function PresetEditor(props: {
+  initial: FarePreset;
+  title: string;
+  onSave: (preset: FarePreset) => void;
+  onCancel: () => void;
+}) {
+  const { initial, title, onSave, onCancel } = props;
+  const [draft, setDraft] = useState<PresetDraft>(() => toDraft(initial));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  function updateNumber(key: NumericPresetField, value: string) {
+    setDraft((prev) => ({ ...prev, numbers: { ...prev.numbers, [key]: value } }));
+  }
+
+  function updateBand(kind: BandKind, index: number, patch: Partial<BandDraft>) {
+    setDraft((prev) => ({
+      ...prev,
+      [kind]: prev[kind].map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    }));
+  }
+
+  function addBand(kind: BandKind) {
+    setDraft((prev) => {
+      const last = prev[kind][prev[kind].length - 1];
+      return { ...prev, [kind]: [...prev[kind], { from: '', step: last?.step ?? '', fare: last?.fare ?? '' }] };
+    });
+  }
+
+  function removeBand(kind: BandKind, index: number) {
+    setDraft((prev) => ({ ...prev, [kind]: prev[kind].filter((_, i) => i !== index) }));
+  }
+
+  function updateSurcharge(index: number, patch: Partial<SurchargeDraft>) {
+    setDraft((prev) => ({
+      ...prev,
+      surcharges: prev.surcharges.map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    }));
+  }
+
+  function addSurcharge() {
+    setDraft((prev) => ({
+      ...prev,
+      surcharges: [...prev.surcharges, { label: '深夜早朝', start: '22:00', end: '05:00', ratePercent: '20' }],
+    }));
+  }
+
+  function removeSurcharge(index: number) {
+    setDraft((prev) => ({
+      ...prev,
+      surcharges: prev.surcharges.filter((_, i) => i !== index),
+    }));
+  }
+
+  function updateDiscount(index: number, patch: Partial<DiscountDraft>) {
+    setDraft((prev) => ({
+      ...prev,
+      discounts: prev.discounts.map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    }));
+  }
+
+  // Catalog rules keep their id, so the ride panel shows the preset's copy instead of both.
+  function addDiscount(rule: DiscountRule) {
+    setDraft((prev) => ({ ...prev, discounts: [...prev.discounts, toDiscountDraft(rule)] }));
+  }
+
+  function removeDiscount(index: number) {
+    setDraft((prev) => ({
+      ...prev,
+      discounts: prev.discounts.filter((_, i) => i !== index),
+    }));
+  }
+
+  function handleSave() {
+    const preset = fromDraft(initial, draft);
+    const nextErrors = validateFarePreset(preset);
+    setErrors(nextErrors);
+    if (nextErrors.length > 0) return;
+    onSave(preset);
+  }
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.label}>{title}</Text>
+
+      <View style={styles.fieldRow}>
+        <Text style={styles.fieldLabel}>プリセット名</Text>
+        <TextInput
+          value={draft.label}
+          onChangeText={(label) => setDraft((prev) => ({ ...prev, label }))}
+          style={styles.input}
+        />
+      </View>
+
+      {NUMERIC_FIELDS.map(({ key, label }) => (
+        <View key={key} style={styles.fieldRow}>
+          <Text style={styles.fieldLabel}>{label}</Text>
+          <TextInput
+            value={draft.numbers[key]}
+            onChangeText={(value) => updateNumber(key, value)}
+            keyboardType="decimal-pad"
+            style={styles.input}
+          />
+        </View>
+      ))}
+
+      {BAND_SECTIONS.map(({ kind, title: sectionTitle, fromLabel, stepLabel }) => (
+        <View key={kind} style={styles.bandSection}>
+          <Text style={styles.label}>{sectionTitle}</Text>
+          {draft[kind].map((band, index) => (
+            <View key={index} style={styles.listRow}>
+              <TextInput
+                value={band.from}
+                onChangeText={(from) => updateBand(kind, index, { from })}
+                keyboardType="decimal-pad"
+                style={styles.input}
+              />
+              <Text style={styles.fieldLabel}>{fromLabel}</Text>
+              <TextInput
+                value={band.step}
+                onChangeText={(step) => updateBand(kind, index, { step })}
+                keyboardType="decimal-pad"
+                style={styles.input}
+              />
+              <Text style={styles.fieldLabel}>{stepLabel}</Text>
+              <TextInput
+                value={band.fare}
+                onChangeText={(fare) => updateBand(kind, index, { fare })}
+                keyboardType="decimal-pad"
+                style={styles.input}
+              />
+              <Text style={styles.fieldLabel}>円</Text>
+              <Pressable
+                onPress={() => removeBand(kind, index)}
+                style={({ pressed }) => [styles.chip, pressed && styles.pressed]}
+              >
+                <Text style={styles.chipText}>削除</Text>
+              </Pressable>
+            </View>
+          ))}
+          <Pressable onPress={() => addBand(kind)} style={({ pressed }) => [styles.chip, pressed && styles.pressed]}>
+            <Text style={styles.chipText}>{sectionTitle}の帯を追加</Text>
+          </Pressable>
+        </View>
+      ))}
+
+      <View style={styles.chipRow}>
+        {(Object.keys(FARE_MODEL_LABELS) as FareModel[]).map((model) => {
+          const active = draft.fareModel === model;
+          return (
+            <Pressable
+              key={model}
+              onPress={() => setDraft((prev) => ({ ...prev, fareModel: model }))}
+              style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && styles.pressed]}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {FARE_MODEL_LABELS[model]}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {draft.surcharges.map((surcharge, index) => (
+        <View key={index} style={styles.listRow}>
+          <TextInput
+            value={surcharge.label}
+            onChangeText={(label) => updateSurcharge(index, { label })}
+            style={[styles.input, styles.surchargeLabelInput]}
+          />
+          <TextInput
+            value={surcharge.start}
+            onChangeText={(start) => updateSurcharge(index, { start })}
+            placeholder="22:00"
+            style={[styles.input, styles.surchargeTimeInput]}
+          />
+          <Text style={styles.fieldLabel}>〜</Text>
+          <TextInput
+            value={surcharge.end}
+            onChangeText={(end) => updateSurcharge(index, { end })}
+            placeholder="05:00"
+            style={[styles.input, styles.surchargeTimeInput]}
+          />
+          <TextInput
+            value={surcharge.ratePercent}
+            onChangeText={(ratePercent) => updateSurcharge(index, { ratePercent })}
+            keyboardType="decimal-pad"
+            style={[styles.input, styles.surchargeTimeInput]}
+          />
+          <Text style={styles.fieldLabel}>%</Text>
+          <Pressable
+            onPress={() => removeSurcharge(index)}
+            style={({ pressed }) => [styles.chip, pressed && styles.pressed]}
+          >
+            <Text style={styles.chipText}>削除</Text>
+          </Pressable>
+        </View>
+      ))}
+      <Pressable onPress={addSurcharge} style={({ pressed }) => [styles.chip, pressed && styles.pressed]}>
+        <Text style={styles.chipText}>割増時間帯を追加</Text>
+      </Pressable>
+
+      <View style={styles.bandSection}>
+        <Text style={styles.label}>割引（このプリセットで常に選択）</Text>
+        {draft.discounts.map((discount, index) => (
+          <View key={discount.id} style={styles.discountBlock}>
+            <View style={styles.listRow}>
+              <TextInput
+                value={discount.label}
+                onChangeText={(label) => updateDiscount(index, { label })}
+                style={styles.input}
+              />
+              <Pressable
+                onPress={() => removeDiscount(index)}
+                style={({ pressed }) => [styles.chip, pressed && styles.pressed]}
+              >
+                <Text style={styles.chipText}>削除</Text>
+              </Pressable>
+            </View>
+            <View style={styles.chipRow}>
+              {DISCOUNT_KINDS.map((kind) => {
+                const active = discount.kind === kind;
+                return (
+                  <Pressable
+                    key={kind}
+                    onPress={() => updateDiscount(index, { kind })}
+                    style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && styles.pressed]}
+                  >
+                    <Text style={[styles.chipText, active && styles.chipTextActive]}>{DISCOUNT_KIND_LABELS[kind]}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <View style={styles.listRow}>
+              {discount.kind === 'long_distance' ? (
+                <>
+                  <TextInput
+                    value={discount.threshold}
+                    onChangeText={(threshold) => updateDiscount(index, { threshold })}
+                    keyboardType="number-pad"
+                    style={styles.input}
+                  />
+                  <Text style={styles.fieldLabel}>円超の部分を</Text>
+                </>
+              ) : null}
+              {discount.kind === 'coupon' ? (
+                <>
+                  <TextInput
+                    value={discount.amount}
+                    onChangeText={(amount) => updateDiscount(index, { amount })}
+                    keyboardType="number-pad"
+                    style={styles.input}
+                  />
+                  <Text style={styles.fieldLabel}>円引</Text>
+                </>
+              ) : (
+                <>
+                  <TextInput
+                    value={discount.ratePercent}
+                    onChangeText={(ratePercent) => updateDiscount(index, { ratePercent })}
+                    keyboardType="decimal-pad"
+                    style={styles.input}
+                  />
+                  <Text style={styles.fieldLabel}>%引</Text>
+                </>
+              )}
+            </View>
+            <View style={styles.chipRow}>
+              {ROUNDING_UNITS_YEN.map((unit) => {
+                const active = discount.roundingUnitYen === unit;
+                return (
+                  <Pressable
+                    key={unit}
+                    onPress={() => updateDiscount(index, { roundingUnitYen: unit })}
+                    style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && styles.pressed]}
+                  >
+                    <Text style={[styles.chipText, active && styles.chipTextActive]}>{unit}円単位</Text>
+                  </Pressable>
+                );
+              })}
+              {ROUNDING_MODES.map((mode) => {
+                const active = discount.roundingMode === mode;
+                return (
+                  <Pressable
+                    key={mode}
+                    onPress={() => updateDiscount(index, { roundingMode: mode })}
+                    style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && styles.pressed]}
+                  >
+                    <Text style={[styles.chipText, active && styles.chipTextActive]}>{ROUNDING_MODE_LABELS[mode]}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+        <View style={styles.chipRow}>
+          {DISCOUNT_RULE_CATALOG.filter((rule) => !draft.discounts.some((item) => item.id === rule.id)).map((rule) => (
+            <Pressable
+              key={rule.id}
+              onPress={() => addDiscount(rule)}
+              style={({ pressed }) => [styles.chip, pressed && styles.pressed]}
+            >
+              <Text style={styles.chipText}>{rule.label}を追加</Text>
+            </Pressable>
+          ))}
+          <Pressable
+            onPress={() => addDiscount(createCouponRule(500, Date.now()))}
+            style={({ pressed }) => [styles.chip, pressed && styles.pressed]}
+          >
+            <Text style={styles.chipText}>クーポンを追加</Text>
+          </Pressable>
+        </View>
+      </View>
+
+      {errors.map((error) => (
+        <Text key={error} style={styles.error}>
+          {error}
+        </Text>
+      ))}
+
+      <View style={styles.actionRow}>
+        <Pressable
+          onPress={handleSave}
+          style={({ pressed }) => [styles.actionButton, styles.saveButton, pressed && styles.pressed]}
+        >
+          <Text style={styles.actionText}>保存</Text>
+        </Pressable>
+        <Pressable
+          onPress={onCancel}
+          style={({ pressed }) => [styles.actionButton, styles.cancelButton, pressed && styles.pressed]}
+        >
+          <Text style={styles.actionText}>キャンセル</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#374151',
+    backgroundColor: '#0b1220',
+    padding: 12,
+    gap: 6,
+    marginTop: 4,
+  },
+  label: {
+    color: '#9ca3af',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  fieldLabel: {
+    color: '#d1d5db',
+    fontSize: 13,
+    flexShrink: 0,
+    minWidth: 12,
+  },
+  input: {
+    flex: 1,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    color: '#f9fafb',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    fontSize: 13,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+  },
+  chipActive: {
+    borderColor: '#22c55e',
+    backgroundColor: '#052e16',
+  },
+  chipText: {
+    color: '#e5e7eb',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  chipTextActive: {
+    color: '#bbf7d0',
+  },
+  bandSection: {
+    gap: 4,
+  },
+  discountBlock: {
+    gap: 4,
+    borderTopWidth: 1,
+    borderTopColor: '#1f2937',
+    paddingTop: 4,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  surchargeLabelInput: {
+    flex: 2,
+  },
+  surchargeTimeInput: {
+    flex: 1,
+  },
+  error: {
+    color: '#fca5a5',
+    fontSize: 12,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 4,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  saveButton: {
+    backgroundColor: '#15803d',
+  },
+  cancelButton: {
+    backgroundColor: '#374151',
+  },
+  actionText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  pressed: {
+    opacity: 0.85,
+  },
+});
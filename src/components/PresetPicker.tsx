@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { FarePreset } from '../lib/fare';
+import { groupPresets } from '../lib/presets';
+
+export function PresetPicker(props: {
+  presets: FarePreset[];
+  selectedId: string;
+  disabled: boolean;
+  onSelect: (presetId: string) => void;
+}) {
+  const { presets, selectedId, disabled, onSelect } = props;
+  const [query, setQuery] = useState('');
+  const groups = useMemo(() => groupPresets(presets, query), [presets, query]);
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        value={query}
+        onChangeText={setQuery}
+        placeholder="地域・交通圏・車種で検索"
+        placeholderTextColor="#6b7280"
+        style={styles.search}
+      />
+      {groups.length === 0 ? (
+        <Text style={styles.empty}>
+          該当するプリセットはありません（未収録の交通圏・車種はカスタムプリセットで追加できます）
+        </Text>
+      ) : null}
+      {groups.map((group) => (
+        <View key={group.title} style={styles.group}>
+          <Text style={styles.groupTitle}>{group.title}</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+            {group.presets.map((preset) => {
+              const active = selectedId === preset.id;
+              return (
+                <Pressable
+                  key={preset.id}
+                  onPress={() => onSelect(preset.id)}
+                  disabled={disabled}
+                  style={({ pressed }) => [
+                    styles.presetButton,
+                    active && styles.presetButtonActive,
+                    pressed && styles.pressed,
+                  ]}
+                >
+                  <Text style={[styles.presetText, active && styles.presetTextActive]}>
+                    {preset.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  search: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    color: '#f9fafb',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    fontSize: 13,
+  },
+  empty: {
+    color: '#6b7280',
+    fontSize: 12,
+  },
+  group: {
+    gap: 4,
+  },
+  groupTitle: {
+    color: '#9ca3af',
+    fontSize: 11,
+    letterSpacing: 1,
+  },
+  row: {
+    gap: 8,
+  },
+  presetButton: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    minWidth: 84,
+    alignItems: 'center',
+  },
+  presetButtonActive: {
+    borderColor: '#22c55e',
+    backgroundColor: '#052e16',
+  },
+  presetText: {
+    color: '#e5e7eb',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  presetTextActive: {
+    color: '#bbf7d0',
+  },
+  pressed: {
+    opacity: 0.85,
+  },
+});
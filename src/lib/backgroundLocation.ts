@@ -0,0 +1,84 @@
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+
+import { documentPath, FileSystem, queueFileOperation } from './fileSystem';
+import { LocationSample, toLocationSample } from './pipeline';
+
+// While the app is in the background, location updates arrive in a background task instead of
+// the foreground watch. They are queued on disk (the JS context may be recreated) and replayed
+// through the normal pipeline once the app is back in the foreground.
+
+export const BACKGROUND_LOCATION_TASK = 'taximeter-background-location';
+const QUEUE_FILE = documentPath('background-location-queue-v1.json');
+
+async function readQueue(): Promise<LocationSample[]> {
+  try {
+    const info = await FileSystem.getInfoAsync(QUEUE_FILE);
+    if (!info.exists) return [];
+    const raw = await FileSystem.readAsStringAsync(QUEUE_FILE);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as LocationSample[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeQueue(samples: LocationSample[]): Promise<void> {
+  await FileSystem.writeAsStringAsync(QUEUE_FILE, samples.length > 0 ? JSON.stringify(samples) : '');
+}
+
+// Must run at module load so the task exists when the OS wakes the app for an update.
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(
+  BACKGROUND_LOCATION_TASK,
+  async ({ data, error }) => {
+    if (error || !data?.locations?.length) return;
+    const samples = data.locations.map(toLocationSample);
+    // Read-modify-write; overlapping invocations would otherwise drop each other's samples.
+    await queueFileOperation(QUEUE_FILE, async () => {
+      await writeQueue([...(await readQueue()), ...samples]);
+    });
+  }
+);
+
+export async function requestBackgroundLocationPermission(): Promise<boolean> {
+  const current = await Location.getBackgroundPermissionsAsync();
+  if (current.status === 'granted') return true;
+  const requested = await Location.requestBackgroundPermissionsAsync();
+  return requested.status === 'granted';
+}
+
+export async function startBackgroundLocationUpdates(): Promise<void> {
+  await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
+    accuracy: Location.Accuracy.High,
+    timeInterval: 2000,
+    distanceInterval: 3,
+    activityType: Location.ActivityType.AutomotiveNavigation,
+    pausesUpdatesAutomatically: false,
+    showsBackgroundLocationIndicator: true,
+    foregroundService: {
+      notificationTitle: 'タクシーメーター計測中',
+      notificationBody: 'バックグラウンドで走行距離を計測しています',
+    },
+  });
+}
+
+export async function stopBackgroundLocationUpdates(): Promise<void> {
+  try {
+    if (await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK)) {
+      await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+    }
+  } catch {
+    // Not registered (e.g. background tracking was never started on this install).
+  }
+}
+
+// Returns queued samples in timestamp order and empties the queue.
+export async function drainBackgroundSamples(): Promise<LocationSample[]> {
+  const queued = await queueFileOperation(QUEUE_FILE, async () => {
+    const samples = await readQueue();
+    await writeQueue([]);
+    return samples;
+  });
+  return queued.sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,239 @@
+import { sha256Hex } from './checksum';
+import { documentPath, FileSystem } from './fileSystem';
+import {
+  clearSessionSnapshot,
+  DriveHistoryItem,
+  HISTORY_SCHEMA,
+  loadDriveHistory,
+  loadSessionSnapshot,
+  replaceDriveHistory,
+  saveSessionSnapshot,
+  SessionSnapshot,
+  SNAPSHOT_SCHEMA,
+  validateDriveHistoryItem,
+  validateSessionSnapshot,
+} from './history';
+import { CustomFarePreset, loadCustomPresets, saveCustomPresets, validateCustomPreset } from './presets';
+import { findLargestReceiptNumber, raiseReceiptCounter } from './receipt';
+import { AppSettings, loadAppSettings, saveAppSettings, validateAppSettings } from './settings';
+import {
+  checkNumber,
+  checkString,
+  collectErrors,
+  isRecord,
+  migrateStoredFile,
+  parseStoredFile,
+  serializeStoredFile,
+  StorageSchema,
+} from './storage';
+
+// One file holding everything the app keeps in documentDirectory: history (deleted rides
+// included), custom presets, settings and the in-progress session. The manifest lists each
+// part's schema version, record count and SHA-256, so a damaged or hand-edited bundle is caught
+// before a restore overwrites anything.
+
+const BACKUP_FILE_PATTERN = /^app-backup-\d+\.json$/;
+
+export const BACKUP_SCHEMA: StorageSchema = {
+  name: 'app-backup',
+  currentVersion: 1,
+  migrations: {},
+};
+
+export const BACKUP_PARTS = ['history', 'presets', 'settings', 'snapshot'] as const;
+
+export type BackupPart = (typeof BACKUP_PARTS)[number];
+
+export const BACKUP_PART_LABELS: Record<BackupPart, string> = {
+  history: '運転履歴',
+  presets: 'カスタムプリセット',
+  settings: '設定',
+  snapshot: '中断中のセッション',
+};
+
+export type BackupPartManifest = {
+  schemaVersion: number;
+  // Records in the part: rides, presets, 1 for settings, 0 or 1 for the snapshot.
+  count: number;
+  // SHA-256 of the part's compact JSON.
+  sha256: string;
+};
+
+export type BackupManifest = {
+  createdAtMs: number;
+  parts: Record<BackupPart, BackupPartManifest>;
+};
+
+export type BackupPartCheck = {
+  count: number;
+  // Empty when the part can be restored.
+  errors: string[];
+  // Upgraded to the current schema; only meaningful when errors is empty.
+  data: unknown;
+};
+
+export type BackupInspection = {
+  fileName: string;
+  createdAtMs: number;
+  parts: Record<BackupPart, BackupPartCheck>;
+};
+
+// Custom presets and settings are unversioned files; their part versions start at 1.
+const PART_SCHEMAS: Record<BackupPart, StorageSchema> = {
+  history: HISTORY_SCHEMA,
+  presets: { name: 'fare-presets', currentVersion: 1, migrations: {} },
+  settings: { name: 'app-settings', currentVersion: 1, migrations: {} },
+  snapshot: SNAPSHOT_SCHEMA,
+};
+
+function validateEach(data: unknown, validate: (record: unknown) => string[]): string[] {
+  if (!Array.isArray(data)) return ['配列ではありません'];
+  return data.flatMap((record, index) => validate(record).map((reason) => `${index + 1}件目 ${reason}`));
+}
+
+const PART_VALIDATORS: Record<BackupPart, (data: unknown) => string[]> = {
+  history: (data) => validateEach(data, validateDriveHistoryItem),
+  presets: (data) => validateEach(data, validateCustomPreset),
+  settings: validateAppSettings,
+  snapshot: (data) => (data === null ? [] : validateSessionSnapshot(data)),
+};
+
+// The receipt counter is not part of any backup; restoring only ever moves it past the numbers
+// the restored data has already used.
+const PART_WRITERS: Record<BackupPart, (data: unknown) => Promise<void>> = {
+  history: async (data) => {
+    await replaceDriveHistory(data as DriveHistoryItem[]);
+    await raiseReceiptCounter(findLargestReceiptNumber(data as DriveHistoryItem[]));
+  },
+  presets: (data) => saveCustomPresets(data as CustomFarePreset[]),
+  settings: async (data) => {
+    const settings = data as AppSettings;
+    await saveAppSettings(settings);
+    await raiseReceiptCounter((settings.nextReceiptNumber ?? 1) - 1);
+  },
+  snapshot: (data) =>
+    data === null ? clearSessionSnapshot() : saveSessionSnapshot(data as SessionSnapshot),
+};
+
+function countRecords(data: unknown): number {
+  if (Array.isArray(data)) return data.length;
+  return data === null ? 0 : 1;
+}
+
+export function isBackupFileName(fileName: string): boolean {
+  return BACKUP_FILE_PATTERN.test(fileName);
+}
+
+export async function listBackupFiles(): Promise<string[]> {
+  try {
+    const names = await FileSystem.readDirectoryAsync(documentPath(''));
+    return names.filter(isBackupFileName).sort().reverse();
+  } catch {
+    return [];
+  }
+}
+
+// Returns the path of the written bundle.
+export async function createBackup(nowMs = Date.now()): Promise<string> {
+  const parts: Record<BackupPart, unknown> = {
+    history: await loadDriveHistory({ includeDeleted: true }),
+    presets: await loadCustomPresets(),
+    settings: await loadAppSettings(),
+    snapshot: await loadSessionSnapshot(),
+  };
+  const manifest: BackupManifest = {
+    createdAtMs: nowMs,
+    parts: {
+      history: describePart('history', parts.history),
+      presets: describePart('presets', parts.presets),
+      settings: describePart('settings', parts.settings),
+      snapshot: describePart('snapshot', parts.snapshot),
+    },
+  };
+  const backupUri = documentPath(`app-backup-${nowMs}.json`);
+  await FileSystem.writeAsStringAsync(backupUri, serializeStoredFile(BACKUP_SCHEMA, { manifest, parts }));
+  return backupUri;
+}
+
+function describePart(part: BackupPart, data: unknown): BackupPartManifest {
+  return {
+    schemaVersion: PART_SCHEMAS[part].currentVersion,
+    count: countRecords(data),
+    sha256: sha256Hex(JSON.stringify(data)),
+  };
+}
+
+function checkPartManifest(entry: Record<string, unknown>): string[] {
+  return collectErrors([
+    checkNumber(entry, 'schemaVersion'),
+    checkNumber(entry, 'count'),
+    checkString(entry, 'sha256'),
+  ]);
+}
+
+// Checksum first, so an edited part is reported as such rather than as whatever it now fails.
+function checkPart(part: BackupPart, entry: unknown, data: unknown): BackupPartCheck {
+  if (!isRecord(entry)) return { count: 0, errors: ['マニフェストに記載がありません'], data: null };
+  const manifestErrors = checkPartManifest(entry);
+  if (manifestErrors.length > 0) return { count: 0, errors: manifestErrors, data: null };
+
+  const manifest = entry as BackupPartManifest;
+  if (data === undefined) {
+    return { count: manifest.count, errors: ['データがありません'], data: null };
+  }
+  if (sha256Hex(JSON.stringify(data)) !== manifest.sha256) {
+    return { count: manifest.count, errors: ['チェックサムが一致しません（破損または編集されています）'], data: null };
+  }
+
+  let upgraded: unknown;
+  try {
+    upgraded = migrateStoredFile(PART_SCHEMAS[part], { schemaVersion: manifest.schemaVersion, data }).data;
+  } catch (error) {
+    return { count: manifest.count, errors: [error instanceof Error ? error.message : String(error)], data: null };
+  }
+  const errors = PART_VALIDATORS[part](upgraded);
+  if (countRecords(upgraded) !== manifest.count) {
+    errors.push(`件数がマニフェスト（${manifest.count}件）と一致しません`);
+  }
+  return { count: manifest.count, errors, data: upgraded };
+}
+
+// Read-only: parses the bundle and runs checksum and schema checks on every part.
+export async function inspectBackup(fileName: string): Promise<BackupInspection> {
+  const raw = await FileSystem.readAsStringAsync(documentPath(fileName));
+  const { data } = migrateStoredFile(BACKUP_SCHEMA, parseStoredFile(raw));
+  if (!isRecord(data) || !isRecord(data.manifest) || !isRecord(data.parts)) {
+    throw new Error('バックアップファイルの形式ではありません');
+  }
+  const { manifest, parts } = data;
+  const manifestParts = isRecord(manifest.parts) ? manifest.parts : {};
+  const check = (part: BackupPart) => checkPart(part, manifestParts[part], parts[part]);
+  return {
+    fileName,
+    createdAtMs: typeof manifest.createdAtMs === 'number' ? manifest.createdAtMs : 0,
+    parts: {
+      history: check('history'),
+      presets: check('presets'),
+      settings: check('settings'),
+      snapshot: check('snapshot'),
+    },
+  };
+}
+
+// Replaces the selected parts with the bundle's copies. The current state is backed up first so
+// a mistaken restore can itself be undone; that bundle's path is returned.
+export async function restoreBackup(
+  inspection: BackupInspection,
+  parts: BackupPart[],
+  nowMs = Date.now()
+): Promise<string> {
+  const failed = parts.filter((part) => inspection.parts[part].errors.length > 0);
+  if (failed.length > 0) {
+    throw new Error(`${failed.map((part) => BACKUP_PART_LABELS[part]).join('・')}に問題があるため復元できません`);
+  }
+  const safetyUri = await createBackup(nowMs);
+  for (const part of parts) {
+    await PART_WRITERS[part](inspection.parts[part].data);
+  }
+  return safetyUri;
+}
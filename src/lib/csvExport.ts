@@ -0,0 +1,239 @@
+import { sumDiscounts } from './discounts';
+import { getRideTotalYen, sumExtraCharges } from './extraCharges';
+import { FARE_MODEL_LABELS, FarePreset, getPresetById } from './fare';
+import type { DriveHistoryItem, SessionEvent } from './history';
+
+// Spreadsheet-friendly history export: RFC 4180 quoting, CRLF line ends and a UTF-8 BOM so Excel
+// on Japanese Windows detects the encoding instead of assuming Shift_JIS. parseCsv reads the same
+// format back for import.
+
+const UTF8_BOM = '\uFEFF';
+const CSV_LINE_END = '\r\n';
+
+export type CsvRowMode = 'ride' | 'event';
+
+export const CSV_ROW_MODE_LABELS: Record<CsvRowMode, string> = {
+  ride: '走行ごと',
+  event: 'イベントごと',
+};
+
+export type CsvColumnId =
+  | 'id'
+  | 'startedAtIso'
+  | 'startedAtLocal'
+  | 'finishedAtIso'
+  | 'finishedAtLocal'
+  | 'elapsedMinutes'
+  | 'pausedMinutes'
+  | 'distanceKm'
+  | 'fareYen'
+  | 'discountYen'
+  | 'discounts'
+  | 'extraChargesYen'
+  | 'totalYen'
+  | 'preset'
+  | 'fareModel'
+  | 'source'
+  | 'passengerCount'
+  | 'tags'
+  | 'notes'
+  | 'distanceChargeSteps'
+  | 'timeChargeSteps'
+  | 'surchargeChargeSteps';
+
+type CsvValue = string | number | null;
+
+type CsvColumn = {
+  id: CsvColumnId;
+  label: string;
+  value: (item: DriveHistoryItem, presets: FarePreset[]) => CsvValue;
+};
+
+export const RIDE_SOURCE_LABELS: Record<NonNullable<DriveHistoryItem['source']>, string> = {
+  live: '実走行',
+  imported: 'シミュレーション',
+  synthetic: '仮想走行',
+};
+
+export const SESSION_EVENT_LABELS: Record<SessionEvent['type'], string> = {
+  start: '開始',
+  pause: '一時停止',
+  resume: '再開',
+  finish: '終了',
+  surcharge_start: '割増開始',
+  surcharge_end: '割増終了',
+  restore: '復元',
+  extra_charge: '追加料金',
+  extra_charge_cancel: '追加料金取消',
+};
+
+function pad2(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// 'YYYY-MM-DD HH:mm:ss' in the device time zone, which Excel reads as a date-time.
+export function formatLocalDateTime(atMs: number): string {
+  const date = new Date(atMs);
+  return (
+    `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())} ` +
+    `${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())}`
+  );
+}
+
+function toMinutes(ms: number): number {
+  return Math.round((ms / 60000) * 100) / 100;
+}
+
+export const CSV_COLUMNS: CsvColumn[] = [
+  { id: 'id', label: 'ID', value: (item) => item.id },
+  { id: 'startedAtIso', label: '開始(ISO 8601)', value: (item) => new Date(item.startedAtMs).toISOString() },
+  { id: 'startedAtLocal', label: '開始(現地時刻)', value: (item) => formatLocalDateTime(item.startedAtMs) },
+  { id: 'finishedAtIso', label: '終了(ISO 8601)', value: (item) => new Date(item.finishedAtMs).toISOString() },
+  { id: 'finishedAtLocal', label: '終了(現地時刻)', value: (item) => formatLocalDateTime(item.finishedAtMs) },
+  { id: 'elapsedMinutes', label: '計測時間(分)', value: (item) => toMinutes(item.elapsedMs) },
+  {
+    id: 'pausedMinutes',
+    label: '一時停止(分)',
+    value: (item) => toMinutes(item.pauseLogs.reduce((sum, log) => sum + log.durationMs, 0)),
+  },
+  { id: 'distanceKm', label: '距離(km)', value: (item) => Number(item.distanceKm.toFixed(3)) },
+  { id: 'fareYen', label: '運賃(円)', value: (item) => item.fareYen },
+  { id: 'discountYen', label: '割引(円)', value: (item) => sumDiscounts(item.discounts) },
+  {
+    id: 'discounts',
+    label: '割引内容',
+    value: (item) => (item.discounts ?? []).map((discount) => discount.label).join('・'),
+  },
+  { id: 'extraChargesYen', label: '追加料金(円)', value: (item) => sumExtraCharges(item.extraCharges) },
+  { id: 'totalYen', label: '合計(円)', value: (item) => getRideTotalYen(item) },
+  { id: 'preset', label: 'プリセット', value: (item, presets) => getPresetById(item.presetId, presets).label },
+  { id: 'fareModel', label: '運賃方式', value: (item) => FARE_MODEL_LABELS[item.fareModel ?? 'legacy'] },
+  { id: 'source', label: '種別', value: (item) => RIDE_SOURCE_LABELS[item.source ?? 'live'] },
+  { id: 'passengerCount', label: '乗車人数', value: (item) => item.passengerCount ?? null },
+  { id: 'tags', label: 'タグ', value: (item) => (item.tags ?? []).join(' ') },
+  { id: 'notes', label: 'メモ', value: (item) => item.notes ?? '' },
+  { id: 'distanceChargeSteps', label: '距離加算回数', value: (item) => item.distanceChargeSteps },
+  { id: 'timeChargeSteps', label: '時間加算回数', value: (item) => item.timeChargeSteps },
+  { id: 'surchargeChargeSteps', label: '割増加算回数', value: (item) => item.surchargeChargeSteps ?? 0 },
+];
+
+// Always written, so an exported CSV can be imported back without duplicating rides.
+export const REQUIRED_CSV_COLUMNS: CsvColumnId[] = ['id'];
+
+export const DEFAULT_CSV_COLUMNS: CsvColumnId[] = [
+  'id',
+  'startedAtIso',
+  'startedAtLocal',
+  'finishedAtLocal',
+  'elapsedMinutes',
+  'distanceKm',
+  'fareYen',
+  'preset',
+  'source',
+  'passengerCount',
+  'tags',
+  'notes',
+];
+
+// Per-event columns appended in 'event' mode.
+export const CSV_EVENT_HEADERS = ['イベント', 'イベント時刻(ISO 8601)', 'イベント時刻(現地時刻)', '停止時間(分)'];
+
+// Text starting with one of these would be evaluated by spreadsheet apps, so it gets a leading '.
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+function escapeCsvField(value: CsvValue): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function unescapeFormulaPrefix(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+// RFC 4180 fields, tolerating a BOM and either line ending.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i]!;
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell !== ''));
+}
+
+function toCsvLine(values: CsvValue[]): string {
+  return values.map(escapeCsvField).join(',');
+}
+
+function buildEventCells(item: DriveHistoryItem, event: SessionEvent): CsvValue[] {
+  // A resume closes the pause that ended at the same time.
+  const pause =
+    event.type === 'resume'
+      ? item.pauseLogs.find((log) => log.resumedAtMs === event.atMs)
+      : undefined;
+  return [
+    SESSION_EVENT_LABELS[event.type],
+    new Date(event.atMs).toISOString(),
+    formatLocalDateTime(event.atMs),
+    pause ? toMinutes(pause.durationMs) : null,
+  ];
+}
+
+// Columns keep CSV_COLUMNS order regardless of the order they were selected in.
+export function buildHistoryCsv(
+  items: DriveHistoryItem[],
+  options: { columns: CsvColumnId[]; rowMode: CsvRowMode; presets: FarePreset[] }
+): string {
+  const columns = CSV_COLUMNS.filter(
+    (column) => options.columns.includes(column.id) || REQUIRED_CSV_COLUMNS.includes(column.id)
+  );
+  const headers = columns.map((column) => column.label);
+  const lines: string[] = [
+    toCsvLine(options.rowMode === 'event' ? [...headers, ...CSV_EVENT_HEADERS] : headers),
+  ];
+
+  items.forEach((item) => {
+    const rideCells = columns.map((column) => column.value(item, options.presets));
+    if (options.rowMode === 'ride') {
+      lines.push(toCsvLine(rideCells));
+      return;
+    }
+    [...item.events]
+      .sort((a, b) => a.atMs - b.atMs)
+      .forEach((event) => lines.push(toCsvLine([...rideCells, ...buildEventCells(item, event)])));
+  });
+
+  return UTF8_BOM + lines.join(CSV_LINE_END) + CSV_LINE_END;
+}
@@ -0,0 +1,212 @@
+import { checkNumber, checkOneOf, checkString } from './storage';
+
+// Discounts taken off the metered fare (障害者割引, 遠距離割引, coupons). Extra charges such as
+// tolls are never discounted. Rules can be attached to a preset, where they are preselected for
+// every ride, or picked per ride from the catalog below.
+
+// Also the order rules are applied in: a long-distance discount first, then percentage
+// discounts on what remains, then coupons.
+export const DISCOUNT_KINDS = ['long_distance', 'percent', 'coupon'] as const;
+
+export type DiscountKind = (typeof DISCOUNT_KINDS)[number];
+
+export const DISCOUNT_KIND_LABELS: Record<DiscountKind, string> = {
+  long_distance: '遠距離割引',
+  percent: '割合割引',
+  coupon: 'クーポン',
+};
+
+export const ROUNDING_MODES = ['round', 'floor', 'ceil'] as const;
+
+export type RoundingMode = (typeof ROUNDING_MODES)[number];
+
+export const ROUNDING_MODE_LABELS: Record<RoundingMode, string> = {
+  round: '四捨五入',
+  floor: '切り捨て',
+  ceil: '切り上げ',
+};
+
+export const ROUNDING_UNITS_YEN = [1, 10, 100] as const;
+
+export type DiscountRule = {
+  id: string;
+  label: string;
+  kind: DiscountKind;
+  // long_distance and percent: share taken off (0.1 = 10%).
+  rate: number;
+  // long_distance: only the part of the fare above this is discounted.
+  thresholdYen: number;
+  // coupon: fixed amount off.
+  amountYen: number;
+  // The fare after this rule is rounded to roundingUnitYen.
+  roundingUnitYen: number;
+  roundingMode: RoundingMode;
+};
+
+export type AppliedDiscount = {
+  ruleId: string;
+  label: string;
+  kind: DiscountKind;
+  // Rule terms at the time, e.g. '10%引・10円単位四捨五入'.
+  detail: string;
+  discountYen: number;
+};
+
+export type DiscountResult = {
+  beforeYen: number;
+  afterYen: number;
+  // Rules that took something off, in the order they were applied.
+  applied: AppliedDiscount[];
+};
+
+// Common rules offered for every ride. Operators differ; attach adjusted copies to a preset
+// when the defaults do not match.
+export const DISCOUNT_RULE_CATALOG: DiscountRule[] = [
+  {
+    id: 'disability-10',
+    label: '障害者割引',
+    kind: 'percent',
+    rate: 0.1,
+    thresholdYen: 0,
+    amountYen: 0,
+    roundingUnitYen: 10,
+    roundingMode: 'round',
+  },
+  {
+    id: 'long-distance-9000',
+    label: '遠距離割引',
+    kind: 'long_distance',
+    rate: 0.1,
+    thresholdYen: 9000,
+    amountYen: 0,
+    roundingUnitYen: 10,
+    roundingMode: 'round',
+  },
+];
+
+export function createCouponRule(amountYen: number, nowMs: number): DiscountRule {
+  return {
+    id: `coupon-${nowMs}`,
+    label: `クーポン ${amountYen.toLocaleString('ja-JP')}円`,
+    kind: 'coupon',
+    rate: 0,
+    thresholdYen: 0,
+    amountYen,
+    roundingUnitYen: 1,
+    roundingMode: 'floor',
+  };
+}
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+export function describeDiscountRule(rule: DiscountRule): string {
+  const rounding =
+    rule.roundingUnitYen > 1 ? `・${rule.roundingUnitYen}円単位${ROUNDING_MODE_LABELS[rule.roundingMode]}` : '';
+  switch (rule.kind) {
+    case 'long_distance':
+      return `${rule.thresholdYen.toLocaleString('ja-JP')}円超の部分を${formatPercent(rule.rate)}引${rounding}`;
+    case 'percent':
+      return `${formatPercent(rule.rate)}引${rounding}`;
+    case 'coupon':
+      return `${rule.amountYen.toLocaleString('ja-JP')}円引${rounding}`;
+  }
+}
+
+function roundToUnit(valueYen: number, unitYen: number, mode: RoundingMode): number {
+  const unit = unitYen > 0 ? unitYen : 1;
+  return Math[mode](valueYen / unit) * unit;
+}
+
+function rawDiscountYen(rule: DiscountRule, fareYen: number): number {
+  switch (rule.kind) {
+    case 'long_distance':
+      return Math.max(0, fareYen - rule.thresholdYen) * rule.rate;
+    case 'percent':
+      return fareYen * rule.rate;
+    case 'coupon':
+      return rule.amountYen;
+  }
+}
+
+// Applies the rules in DISCOUNT_KINDS order (stable within a kind). Rounding never makes a rule
+// raise the fare, and the fare never drops below zero.
+export function applyDiscounts(fareYen: number, rules: DiscountRule[]): DiscountResult {
+  const ordered = [...rules].sort((a, b) => DISCOUNT_KINDS.indexOf(a.kind) - DISCOUNT_KINDS.indexOf(b.kind));
+  const applied: AppliedDiscount[] = [];
+  let currentYen = fareYen;
+  for (const rule of ordered) {
+    const raw = rawDiscountYen(rule, currentYen);
+    if (raw <= 0) continue;
+    const nextYen = Math.max(
+      0,
+      Math.min(currentYen, roundToUnit(currentYen - raw, rule.roundingUnitYen, rule.roundingMode))
+    );
+    const discountYen = currentYen - nextYen;
+    if (discountYen <= 0) continue;
+    applied.push({
+      ruleId: rule.id,
+      label: rule.label,
+      kind: rule.kind,
+      detail: describeDiscountRule(rule),
+      discountYen,
+    });
+    currentYen = nextYen;
+  }
+  return { beforeYen: fareYen, afterYen: currentYen, applied };
+}
+
+export function sumDiscounts(discounts: AppliedDiscount[] | undefined): number {
+  return (discounts ?? []).reduce((sum, discount) => sum + discount.discountYen, 0);
+}
+
+// The metered fare after the discounts recorded for the ride.
+export function getDiscountedFareYen(ride: { fareYen: number; discounts?: AppliedDiscount[] }): number {
+  return ride.fareYen - sumDiscounts(ride.discounts);
+}
+
+export function validateDiscountRule(rule: DiscountRule, index: number): string[] {
+  const errors: string[] = [];
+  const prefix = `割引${index + 1}`;
+  if (rule.label.trim().length === 0) {
+    errors.push(`${prefix}: 名前を入力してください`);
+  }
+  if (rule.kind !== 'coupon' && (!Number.isFinite(rule.rate) || rule.rate <= 0 || rule.rate > 1)) {
+    errors.push(`${prefix}: 割引率は0より大きく100%以下にしてください`);
+  }
+  if (rule.kind === 'long_distance' && (!Number.isFinite(rule.thresholdYen) || rule.thresholdYen < 0)) {
+    errors.push(`${prefix}: 適用開始額は0以上の数値にしてください`);
+  }
+  if (rule.kind === 'coupon' && (!Number.isInteger(rule.amountYen) || rule.amountYen < 1)) {
+    errors.push(`${prefix}: クーポン額は1円以上の整数にしてください`);
+  }
+  if (!(ROUNDING_UNITS_YEN as readonly number[]).includes(rule.roundingUnitYen)) {
+    errors.push(`${prefix}: 端数処理の単位は ${ROUNDING_UNITS_YEN.join(' / ')} 円のいずれかにしてください`);
+  }
+  return errors;
+}
+
+// Shape checks for stored rules and applied discounts, used with checkArrayOf.
+export function checkDiscountRule(rule: Record<string, unknown>): (string | null)[] {
+  return [
+    checkString(rule, 'id'),
+    checkString(rule, 'label'),
+    checkOneOf(rule, 'kind', DISCOUNT_KINDS),
+    checkNumber(rule, 'rate'),
+    checkNumber(rule, 'thresholdYen'),
+    checkNumber(rule, 'amountYen'),
+    checkNumber(rule, 'roundingUnitYen'),
+    checkOneOf(rule, 'roundingMode', ROUNDING_MODES),
+  ];
+}
+
+export function checkAppliedDiscount(discount: Record<string, unknown>): (string | null)[] {
+  return [
+    checkString(discount, 'ruleId'),
+    checkString(discount, 'label'),
+    checkOneOf(discount, 'kind', DISCOUNT_KINDS),
+    checkString(discount, 'detail'),
+    checkNumber(discount, 'discountYen'),
+  ];
+}
@@ -0,0 +1,50 @@
+import { AppliedDiscount, getDiscountedFareYen } from './discounts';
+
+// Fees added by hand during a ride (tolls, pick-up and reservation fees, luggage). They are kept
+// apart from the metered fare, which only ever comes from distance and time steps.
+
+export const EXTRA_CHARGE_CATEGORIES = ['toll', 'pickup', 'reservation', 'luggage', 'other'] as const;
+
+export type ExtraChargeCategory = (typeof EXTRA_CHARGE_CATEGORIES)[number];
+
+export const EXTRA_CHARGE_LABELS: Record<ExtraChargeCategory, string> = {
+  toll: '高速道路料金',
+  pickup: '迎車料金',
+  reservation: '予約料金',
+  luggage: '荷物料金',
+  other: 'その他',
+};
+
+export type ExtraCharge = {
+  id: string;
+  category: ExtraChargeCategory;
+  amountYen: number;
+  atMs: number;
+};
+
+export const MAX_EXTRA_CHARGE_YEN = 100000;
+
+export function createExtraCharge(category: ExtraChargeCategory, amountYen: number, atMs: number): ExtraCharge {
+  return { id: `extra-${atMs}`, category, amountYen, atMs };
+}
+
+// Whole yen from 1 up to MAX_EXTRA_CHARGE_YEN; returns an error message or null.
+export function validateExtraChargeAmount(amountYen: number): string | null {
+  if (!Number.isInteger(amountYen) || amountYen < 1 || amountYen > MAX_EXTRA_CHARGE_YEN) {
+    return `金額は 1〜${MAX_EXTRA_CHARGE_YEN.toLocaleString('ja-JP')} 円の整数で入力してください`;
+  }
+  return null;
+}
+
+export function sumExtraCharges(charges: ExtraCharge[] | undefined): number {
+  return (charges ?? []).reduce((sum, charge) => sum + charge.amountYen, 0);
+}
+
+// What the passenger pays: the metered fare after discounts, plus every extra charge.
+export function getRideTotalYen(ride: {
+  fareYen: number;
+  discounts?: AppliedDiscount[];
+  extraCharges?: ExtraCharge[];
+}): number {
+  return getDiscountedFareYen(ride) + sumExtraCharges(ride.extraCharges);
+}
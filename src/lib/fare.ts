@@ -1,21 +1,102 @@
+import type { DiscountRule } from './discounts';
+import { LATE_NIGHT_SURCHARGE, REGIONAL_TARIFFS } from './tariffs';
+
+export type SurchargeWindow = {
+  label: string;
+  // Minutes from local midnight. A window whose start is after its end wraps past midnight.
+  startMinuteOfDay: number;
+  endMinuteOfDay: number;
+  rate: number;
+};
+
+// 'combined' feeds low-speed time into the distance counter like a real meter;
+// 'legacy' bills each sample as either all-time or all-distance.
+export type FareModel = 'combined' | 'legacy';
+
+export const FARE_MODEL_LABELS: Record<FareModel, string> = {
+  combined: '時間距離併用',
+  legacy: '二者択一（旧方式）',
+};
+
+export type VehicleClass = 'small' | 'medium' | 'standard';
+
+// The 運賃公示 a built-in tariff was transcribed from.
+export type TariffNotice = {
+  // Issuing 地方運輸局, or 沖縄総合事務局 for Okinawa.
+  authority: string;
+  // What the notice sets, e.g. '札幌交通圏 中型車 一般乗用旅客自動車運送事業の運賃'.
+  subject: string;
+  // The authority's site, where its taxi fare notices are published.
+  url: string;
+};
+
+// Where a built-in tariff comes from, so it can be checked against the published notice.
+export type TariffCatalogInfo = {
+  region: string;
+  block: string;
+  vehicleClass: VehicleClass;
+  notice: TariffNotice;
+  effectiveFrom: string;
+};
+
+// A band applies once the ride's distance-mode total reaches fromKm. The first band starts at 0.
+export type DistanceBand = {
+  fromKm: number;
+  stepKm: number;
+  stepFareYen: number;
+};
+
+// A band applies once the ride's low-speed total reaches fromSeconds. The first band starts at 0.
+export type TimeBand = {
+  fromSeconds: number;
+  stepSeconds: number;
+  stepFareYen: number;
+};
+
 export type FarePreset = {
   id: string;
   label: string;
   baseFareYen: number;
   baseDistanceKm: number;
-  distanceStepKm: number;
-  distanceStepFareYen: number;
+  distanceBands: DistanceBand[];
   lowSpeedThresholdKmh: number;
-  lowSpeedStepSeconds: number;
-  lowSpeedStepFareYen: number;
+  timeBands: TimeBand[];
+  surchargeWindows: SurchargeWindow[];
+  fareModel: FareModel;
+  // Preselected for every ride with this preset; each ride can still switch them off.
+  discountRules?: DiscountRule[];
+  catalog?: TariffCatalogInfo;
+  // Ordered oldest first. Presets without revisions have a single implicit one.
+  revisions?: FareRevision[];
+};
+
+export type FareRevisionValues = Pick<
+  FarePreset,
+  'baseFareYen' | 'baseDistanceKm' | 'distanceBands' | 'lowSpeedThresholdKmh' | 'timeBands'
+>;
+
+// Dates are local calendar days (YYYY-MM-DD); effectiveTo is exclusive.
+export type FareRevision = {
+  id: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  overrides: Partial<FareRevisionValues>;
 };
 
 export type FareRuntime = {
   baseDistanceRemainingKm: number;
+  // Shared time-distance counter (in distance-equivalent km) under the combined model.
   distanceRemainderKm: number;
   lowSpeedRemainderSeconds: number;
   distanceChargeSteps: number;
   timeChargeSteps: number;
+  distanceBandIndex: number;
+  timeBandIndex: number;
+  surchargeActive: boolean;
+  surchargeChargeSteps: number;
+  // Raw usage totals, kept so a ride can be re-priced under another tariff revision.
+  distanceModeKmTotal: number;
+  lowSpeedSecondsTotal: number;
   fareYen: number;
 };
 
@@ -25,29 +106,34 @@ export const FARE_PRESETS: FarePreset[] = [
     label: '東京',
     baseFareYen: 500,
     baseDistanceKm: 1.0,
-    distanceStepKm: 0.255,
-    distanceStepFareYen: 100,
+    distanceBands: [{ fromKm: 0, stepKm: 0.255, stepFareYen: 100 }],
     lowSpeedThresholdKmh: 10,
-    lowSpeedStepSeconds: 90,
-    lowSpeedStepFareYen: 100,
+    timeBands: [{ fromSeconds: 0, stepSeconds: 90, stepFareYen: 100 }],
+    surchargeWindows: [LATE_NIGHT_SURCHARGE],
+    fareModel: 'combined',
   },
   {
     id: 'osaka',
     label: '大阪',
     baseFareYen: 600,
     baseDistanceKm: 1.3,
-    distanceStepKm: 0.26,
-    distanceStepFareYen: 100,
+    distanceBands: [{ fromKm: 0, stepKm: 0.26, stepFareYen: 100 }],
     lowSpeedThresholdKmh: 10,
-    lowSpeedStepSeconds: 95,
-    lowSpeedStepFareYen: 100,
+    timeBands: [{ fromSeconds: 0, stepSeconds: 95, stepFareYen: 100 }],
+    surchargeWindows: [LATE_NIGHT_SURCHARGE],
+    fareModel: 'combined',
   },
+  ...REGIONAL_TARIFFS,
 ];
 
 export const DEFAULT_FARE_PRESET: FarePreset = FARE_PRESETS[0]!;
 
-export function getPresetById(id: string): FarePreset {
-  return FARE_PRESETS.find((preset) => preset.id === id) ?? DEFAULT_FARE_PRESET;
+export function getPresetById(id: string, customPresets: FarePreset[] = []): FarePreset {
+  return (
+    FARE_PRESETS.find((preset) => preset.id === id) ??
+    customPresets.find((preset) => preset.id === id) ??
+    DEFAULT_FARE_PRESET
+  );
 }
 
 export function createFareRuntime(preset: FarePreset): FareRuntime {
@@ -57,18 +143,80 @@ export function createFareRuntime(preset: FarePreset): FareRuntime {
     lowSpeedRemainderSeconds: 0,
     distanceChargeSteps: 0,
     timeChargeSteps: 0,
+    distanceBandIndex: 0,
+    timeBandIndex: 0,
+    surchargeActive: false,
+    surchargeChargeSteps: 0,
+    distanceModeKmTotal: 0,
+    lowSpeedSecondsTotal: 0,
     fareYen: preset.baseFareYen,
   };
 }
 
+function isMinuteInWindow(minuteOfDay: number, window: SurchargeWindow): boolean {
+  if (window.startMinuteOfDay <= window.endMinuteOfDay) {
+    return minuteOfDay >= window.startMinuteOfDay && minuteOfDay < window.endMinuteOfDay;
+  }
+  return minuteOfDay >= window.startMinuteOfDay || minuteOfDay < window.endMinuteOfDay;
+}
+
+export function getActiveSurcharge(preset: FarePreset, atMs: number): SurchargeWindow | null {
+  const date = new Date(atMs);
+  const minuteOfDay = date.getHours() * 60 + date.getMinutes();
+  return preset.surchargeWindows.find((window) => isMinuteInWindow(minuteOfDay, window)) ?? null;
+}
+
+// The first time after afterMs at which a surcharge window of the preset opens or closes.
+function nextSurchargeBoundaryMs(preset: FarePreset, afterMs: number): number {
+  let nextMs = Number.POSITIVE_INFINITY;
+  preset.surchargeWindows.forEach((window) => {
+    [window.startMinuteOfDay, window.endMinuteOfDay].forEach((minuteOfDay) => {
+      const boundary = new Date(afterMs);
+      boundary.setHours(0, minuteOfDay, 0, 0);
+      if (boundary.getTime() <= afterMs) {
+        boundary.setDate(boundary.getDate() + 1);
+        boundary.setHours(0, minuteOfDay, 0, 0);
+      }
+      nextMs = Math.min(nextMs, boundary.getTime());
+    });
+  });
+  return nextMs;
+}
+
+// Splits [fromMs, toMs) where a surcharge window opens or closes, so time billed in one go (e.g.
+// a restored gap) is charged at the rate in force during each piece.
+export function splitAtSurchargeBoundaries(
+  preset: FarePreset,
+  fromMs: number,
+  toMs: number
+): { fromMs: number; toMs: number }[] {
+  const pieces: { fromMs: number; toMs: number }[] = [];
+  let cursorMs = fromMs;
+  while (cursorMs < toMs) {
+    const endMs = Math.min(toMs, nextSurchargeBoundaryMs(preset, cursorMs));
+    pieces.push({ fromMs: cursorMs, toMs: endMs });
+    cursorMs = endMs;
+  }
+  return pieces;
+}
+
+export function formatMinuteOfDay(minuteOfDay: number): string {
+  const h = Math.floor(minuteOfDay / 60)
+    .toString()
+    .padStart(2, '0');
+  const m = (minuteOfDay % 60).toString().padStart(2, '0');
+  return `${h}:${m}`;
+}
+
 export function updateFareBySegment(params: {
   preset: FarePreset;
   runtime: FareRuntime;
   deltaDistanceKm: number;
   deltaSeconds: number;
   speedKmh: number;
+  atMs: number;
 }): FareRuntime {
-  const { preset, runtime, deltaDistanceKm, deltaSeconds, speedKmh } = params;
+  const { preset, runtime, deltaDistanceKm, deltaSeconds, speedKmh, atMs } = params;
 
   const next: FareRuntime = {
     ...runtime,
@@ -78,37 +226,127 @@ export function updateFareBySegment(params: {
     return next;
   }
 
+  // Real meters apply the surcharge by shortening the step size rather than scaling the fare.
+  const surcharge = getActiveSurcharge(preset, atMs);
+  const stepScale = 1 + (surcharge?.rate ?? 0);
+  const surcharged = surcharge !== null;
+  next.surchargeActive = surcharged;
+
   const inLowSpeedMode = speedKmh <= preset.lowSpeedThresholdKmh;
 
   if (inLowSpeedMode) {
-    next.lowSpeedRemainderSeconds += deltaSeconds;
-    const timeSteps = Math.floor(next.lowSpeedRemainderSeconds / preset.lowSpeedStepSeconds);
-    if (timeSteps > 0) {
-      next.lowSpeedRemainderSeconds -= timeSteps * preset.lowSpeedStepSeconds;
-      next.timeChargeSteps += timeSteps;
-      next.fareYen += timeSteps * preset.lowSpeedStepFareYen;
-    }
+    const pieces = splitAcrossBands(
+      next.lowSpeedSecondsTotal,
+      deltaSeconds,
+      preset.timeBands.map((band) => band.fromSeconds)
+    );
+    next.lowSpeedSecondsTotal += deltaSeconds;
+
+    pieces.forEach(({ amount, index }) => {
+      const timeBand = preset.timeBands[index]!;
+      next.timeBandIndex = index;
+
+      if (preset.fareModel === 'combined') {
+        // 時間距離併用制: low-speed time becomes distance-equivalent km, so both feed one counter and
+        // also eat into the base-distance allowance. A time step converts to the distance that
+        // costs the same, so every step of the shared counter is billed at the distance fare.
+        const distanceBand = preset.distanceBands[next.distanceBandIndex]!;
+        const fareRatio = timeBand.stepFareYen / distanceBand.stepFareYen;
+        const units = (amount / timeBand.stepSeconds) * fareRatio * distanceBand.stepKm;
+        const steps = consumeChargeableKm(next, units, distanceBand.stepKm / stepScale);
+        addTimeSteps(next, steps, distanceBand.stepFareYen, surcharged);
+        return;
+      }
+
+      const stepSeconds = timeBand.stepSeconds / stepScale;
+      next.lowSpeedRemainderSeconds += amount;
+      const steps = Math.floor(next.lowSpeedRemainderSeconds / stepSeconds);
+      if (steps > 0) {
+        next.lowSpeedRemainderSeconds -= steps * stepSeconds;
+        addTimeSteps(next, steps, timeBand.stepFareYen, surcharged);
+      }
+    });
     return next;
   }
 
-  let chargeableDistance = deltaDistanceKm;
-  if (next.baseDistanceRemainingKm > 0) {
-    const consumed = Math.min(next.baseDistanceRemainingKm, chargeableDistance);
-    next.baseDistanceRemainingKm -= consumed;
+  const pieces = splitAcrossBands(
+    next.distanceModeKmTotal,
+    deltaDistanceKm,
+    preset.distanceBands.map((band) => band.fromKm)
+  );
+  next.distanceModeKmTotal += deltaDistanceKm;
+
+  // Both models bill distance-mode travel the same way.
+  pieces.forEach(({ amount, index }) => {
+    const distanceBand = preset.distanceBands[index]!;
+    next.distanceBandIndex = index;
+    const steps = consumeChargeableKm(next, amount, distanceBand.stepKm / stepScale);
+    addDistanceSteps(next, steps, distanceBand.stepFareYen, surcharged);
+  });
+
+  return next;
+}
+
+export function getBandIndex(bandStarts: number[], position: number): number {
+  let index = 0;
+  bandStarts.forEach((start, i) => {
+    if (start <= position) index = i;
+  });
+  return index;
+}
+
+// Splits [start, start + amount) at band boundaries so each piece is billed at its own band rate.
+function splitAcrossBands(
+  start: number,
+  amount: number,
+  bandStarts: number[]
+): { amount: number; index: number }[] {
+  const pieces: { amount: number; index: number }[] = [];
+  let position = start;
+  let remaining = amount;
+
+  while (remaining > 0) {
+    const index = getBandIndex(bandStarts, position);
+    const nextStart = bandStarts[index + 1] ?? Number.POSITIVE_INFINITY;
+    const piece = Math.min(remaining, nextStart - position);
+    pieces.push({ amount: piece, index });
+    remaining -= piece;
+    position = nextStart - (position + piece) < 1e-9 ? nextStart : position + piece;
+  }
+
+  return pieces;
+}
+
+function consumeChargeableKm(runtime: FareRuntime, km: number, distanceStepKm: number): number {
+  let chargeableDistance = km;
+  if (runtime.baseDistanceRemainingKm > 0) {
+    const consumed = Math.min(runtime.baseDistanceRemainingKm, chargeableDistance);
+    runtime.baseDistanceRemainingKm -= consumed;
     chargeableDistance -= consumed;
   }
 
-  if (chargeableDistance > 0) {
-    next.distanceRemainderKm += chargeableDistance;
-    const distanceSteps = Math.floor(next.distanceRemainderKm / preset.distanceStepKm);
-    if (distanceSteps > 0) {
-      next.distanceRemainderKm -= distanceSteps * preset.distanceStepKm;
-      next.distanceChargeSteps += distanceSteps;
-      next.fareYen += distanceSteps * preset.distanceStepFareYen;
-    }
+  if (chargeableDistance <= 0) return 0;
+
+  runtime.distanceRemainderKm += chargeableDistance;
+  const steps = Math.floor(runtime.distanceRemainderKm / distanceStepKm);
+  if (steps > 0) {
+    runtime.distanceRemainderKm -= steps * distanceStepKm;
   }
+  return steps;
+}
 
-  return next;
+function addDistanceSteps(runtime: FareRuntime, steps: number, stepFareYen: number, surcharged: boolean) {
+  if (steps <= 0) return;
+  runtime.distanceChargeSteps += steps;
+  runtime.fareYen += steps * stepFareYen;
+  if (surcharged) runtime.surchargeChargeSteps += steps;
+}
+
+function addTimeSteps(runtime: FareRuntime, steps: number, stepFareYen: number, surcharged: boolean) {
+  if (steps <= 0) return;
+  runtime.timeChargeSteps += steps;
+  runtime.fareYen += steps * stepFareYen;
+  if (surcharged) runtime.surchargeChargeSteps += steps;
 }
 
 export function formatYen(amount: number): string {
@@ -0,0 +1,62 @@
+type FileInfo = { exists: boolean };
+type ExpoFileSystem = {
+  documentDirectory: string | null;
+  getInfoAsync: (fileUri: string) => Promise<FileInfo>;
+  readAsStringAsync: (fileUri: string) => Promise<string>;
+  writeAsStringAsync: (fileUri: string, contents: string) => Promise<void>;
+  readDirectoryAsync: (fileUri: string) => Promise<string[]>;
+  moveAsync: (options: { from: string; to: string }) => Promise<void>;
+  deleteAsync: (fileUri: string, options?: { idempotent?: boolean }) => Promise<void>;
+};
+
+// Avoid static type resolution dependency so the app can compile in constrained environments.
+export const FileSystem = require('expo-file-system') as ExpoFileSystem;
+
+export function documentPath(fileName: string): string {
+  return `${FileSystem.documentDirectory ?? ''}${fileName}`;
+}
+
+export function backupPath(fileUri: string): string {
+  return `${fileUri}.bak`;
+}
+
+// Pending writes and deletes per file. Operations on one file run one at a time in call order,
+// so overlapping writes never share the temp file and a delete is never undone by a write that
+// was started before it.
+const fileQueues = new Map<string, Promise<unknown>>();
+
+export function queueFileOperation<T>(fileUri: string, operation: () => Promise<T>): Promise<T> {
+  const previous = fileQueues.get(fileUri) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(operation);
+  fileQueues.set(fileUri, next);
+  void next
+    .catch(() => undefined)
+    .then(() => {
+      if (fileQueues.get(fileUri) === next) fileQueues.delete(fileUri);
+    });
+  return next;
+}
+
+// Writes a temp file first and renames it into place, so a kill mid-write never leaves a torn
+// file. The previous version is kept at backupPath() as the last good copy.
+export function writeFileAtomically(fileUri: string, contents: string): Promise<void> {
+  return queueFileOperation(fileUri, async () => {
+    const tempUri = `${fileUri}.tmp`;
+    await FileSystem.writeAsStringAsync(tempUri, contents);
+
+    const info = await FileSystem.getInfoAsync(fileUri);
+    if (info.exists) {
+      await FileSystem.deleteAsync(backupPath(fileUri), { idempotent: true });
+      await FileSystem.moveAsync({ from: fileUri, to: backupPath(fileUri) });
+    }
+    await FileSystem.moveAsync({ from: tempUri, to: fileUri });
+  });
+}
+
+export function deleteFileWithBackup(fileUri: string): Promise<void> {
+  return queueFileOperation(fileUri, async () => {
+    await FileSystem.deleteAsync(fileUri, { idempotent: true });
+    await FileSystem.deleteAsync(backupPath(fileUri), { idempotent: true });
+    await FileSystem.deleteAsync(`${fileUri}.tmp`, { idempotent: true });
+  });
+}
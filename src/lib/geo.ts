@@ -1,6 +1,20 @@
 import { LatLng } from './types';
 
 const EARTH_RADIUS_KM = 6371;
+const WGS84_A = 6_378_137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+const VINCENTY_MAX_ITERATIONS = 200;
+
+// 'spherical' is the original haversine. The ellipsoidal methods use Vincenty's inverse formula on
+// WGS-84; the 3D variant also adds significant altitude changes (see the pipeline).
+export type DistanceMethod = 'spherical' | 'ellipsoidal' | 'ellipsoidal3d';
+
+export const DISTANCE_METHOD_LABELS: Record<DistanceMethod, string> = {
+  spherical: '球面',
+  ellipsoidal: '楕円体（WGS-84）',
+  ellipsoidal3d: '楕円体＋高度',
+};
 
 function toRadians(value: number): number {
   return (value * Math.PI) / 180;
@@ -20,6 +34,98 @@ export function distanceKmBetween(a: LatLng, b: LatLng): number {
   return EARTH_RADIUS_KM * c;
 }
 
+// Vincenty's inverse formula. Falls back to the spherical distance for nearly antipodal points,
+// where the iteration does not converge.
+export function ellipsoidalDistanceKm(a: LatLng, b: LatLng): number {
+  const L = toRadians(b.longitude - a.longitude);
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(a.latitude)));
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(b.latitude)));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  let sinSigma = 0;
+  let cosSigma = 1;
+  let sigma = 0;
+  let cos2Alpha = 1;
+  let cos2SigmaM = 0;
+  let converged = false;
+
+  for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i += 1) {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    );
+    if (sinSigma === 0) return 0;
+
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cos2Alpha = 1 - sinAlpha * sinAlpha;
+    cos2SigmaM = cos2Alpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cos2Alpha : 0;
+    const C = (WGS84_F / 16) * cos2Alpha * (4 + WGS84_F * (4 - 3 * cos2Alpha));
+    const previous = lambda;
+    lambda =
+      L +
+      (1 - C) *
+        WGS84_F *
+        sinAlpha *
+        (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+    if (Math.abs(lambda - previous) < 1e-12) {
+      converged = true;
+      break;
+    }
+  }
+
+  if (!converged) return distanceKmBetween(a, b);
+
+  const uSq = (cos2Alpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+  const bigA = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const bigB = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+  const deltaSigma =
+    bigB *
+    sinSigma *
+    (cos2SigmaM +
+      (bigB / 4) *
+        (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+          (bigB / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+
+  return (WGS84_B * bigA * (sigma - deltaSigma)) / 1000;
+}
+
+// Surface distance for the given method; altitude is handled by the caller for 'ellipsoidal3d'.
+export function horizontalDistanceKm(a: LatLng, b: LatLng, method: DistanceMethod): number {
+  return method === 'spherical' ? distanceKmBetween(a, b) : ellipsoidalDistanceKm(a, b);
+}
+
+export function slopeDistanceKm(horizontalKm: number, climbMeters: number): number {
+  const climbKm = climbMeters / 1000;
+  return Math.sqrt(horizontalKm * horizontalKm + climbKm * climbKm);
+}
+
+// Point reached by travelling distanceKm from `from` along an initial bearing (degrees from north).
+export function destinationPoint(from: LatLng, distanceKm: number, bearingDegrees: number): LatLng {
+  const angular = distanceKm / EARTH_RADIUS_KM;
+  const bearing = toRadians(bearingDegrees);
+  const lat1 = toRadians(from.latitude);
+  const lon1 = toRadians(from.longitude);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing)
+  );
+  const lon2 =
+    lon1 +
+    Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+
+  return { latitude: (lat2 * 180) / Math.PI, longitude: (lon2 * 180) / Math.PI };
+}
+
 export function formatDuration(ms: number): string {
   const totalSeconds = Math.max(0, Math.floor(ms / 1000));
   const h = Math.floor(totalSeconds / 3600)
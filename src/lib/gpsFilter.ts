@@ -0,0 +1,196 @@
+import type { LocationSample } from './pipeline';
+import { LatLng } from './types';
+
+// GPS filter strategies. Each one smooths the incoming position and then decides whether the
+// step from the previous position is billed. 'threshold' is the original accept/reject filter.
+
+export type GpsFilterKind = 'threshold' | 'kalman' | 'median';
+
+export const GPS_FILTER_LABELS: Record<GpsFilterKind, string> = {
+  threshold: 'しきい値',
+  kalman: 'カルマン',
+  median: '移動中央値',
+};
+
+const MAX_REASONABLE_SPEED_KMH = 180;
+const POOR_ACCURACY_METERS = 80;
+const MAX_DISTANCE_FACTOR_KM_PER_SEC = (MAX_REASONABLE_SPEED_KMH / 3600) * 1.5;
+
+// Constant-velocity model: unmodelled acceleration (m/s^2) and fallbacks for missing accuracy.
+const KALMAN_ACCELERATION_NOISE = 2;
+const KALMAN_DEFAULT_ACCURACY_METERS = 15;
+const KALMAN_MIN_ACCURACY_METERS = 3;
+const KALMAN_INITIAL_VELOCITY_VARIANCE = 100;
+const METERS_PER_DEGREE_LAT = 110_540;
+const METERS_PER_DEGREE_LON_AT_EQUATOR = 111_320;
+
+const MEDIAN_WINDOW_SIZE = 5;
+
+// One axis of the filter in local meters: position, velocity and their covariance.
+type KalmanAxis = {
+  position: number;
+  velocity: number;
+  p00: number;
+  p01: number;
+  p11: number;
+};
+
+export type GpsFilterState =
+  | { kind: 'threshold' }
+  | {
+      kind: 'kalman';
+      origin: LatLng | null;
+      lastTimeMs: number | null;
+      east: KalmanAxis | null;
+      north: KalmanAxis | null;
+    }
+  | { kind: 'median'; window: LatLng[] };
+
+export type SampleStep = {
+  deltaKm: number;
+  deltaSeconds: number;
+  speedKmh: number;
+  accuracyMeters: number | null;
+};
+
+export function createGpsFilterState(kind: GpsFilterKind): GpsFilterState {
+  switch (kind) {
+    case 'kalman':
+      return { kind, origin: null, lastTimeMs: null, east: null, north: null };
+    case 'median':
+      return { kind, window: [] };
+    default:
+      return { kind: 'threshold' };
+  }
+}
+
+export function getNoisySampleReason(step: SampleStep): string | null {
+  const { deltaKm, deltaSeconds, speedKmh, accuracyMeters } = step;
+
+  if (!Number.isFinite(deltaKm) || !Number.isFinite(deltaSeconds) || deltaSeconds <= 0) {
+    return 'invalid_delta';
+  }
+
+  if (speedKmh > MAX_REASONABLE_SPEED_KMH) {
+    return 'speed_spike';
+  }
+
+  const dynamicDistanceCap = MAX_DISTANCE_FACTOR_KM_PER_SEC * deltaSeconds + 0.02;
+  if (deltaKm > dynamicDistanceCap) {
+    return 'distance_jump';
+  }
+
+  if (accuracyMeters !== null && accuracyMeters > POOR_ACCURACY_METERS && deltaKm > 0.03) {
+    return 'poor_accuracy_jump';
+  }
+
+  return null;
+}
+
+// Smoothing strategies absorb noise themselves, so only unusable steps are rejected.
+export function getStepRejectionReason(kind: GpsFilterKind, step: SampleStep): string | null {
+  if (kind === 'threshold') return getNoisySampleReason(step);
+  if (!Number.isFinite(step.deltaKm) || !Number.isFinite(step.deltaSeconds) || step.deltaSeconds <= 0) {
+    return 'invalid_delta';
+  }
+  return null;
+}
+
+function toLocalMeters(origin: LatLng, point: LatLng): { east: number; north: number } {
+  const lonScale = METERS_PER_DEGREE_LON_AT_EQUATOR * Math.cos((origin.latitude * Math.PI) / 180);
+  return {
+    east: (point.longitude - origin.longitude) * lonScale,
+    north: (point.latitude - origin.latitude) * METERS_PER_DEGREE_LAT,
+  };
+}
+
+function fromLocalMeters(origin: LatLng, east: number, north: number): LatLng {
+  const lonScale = METERS_PER_DEGREE_LON_AT_EQUATOR * Math.cos((origin.latitude * Math.PI) / 180);
+  return {
+    latitude: origin.latitude + north / METERS_PER_DEGREE_LAT,
+    longitude: origin.longitude + east / lonScale,
+  };
+}
+
+function createKalmanAxis(position: number, variance: number): KalmanAxis {
+  return { position, velocity: 0, p00: variance, p01: 0, p11: KALMAN_INITIAL_VELOCITY_VARIANCE };
+}
+
+function stepKalmanAxis(axis: KalmanAxis, measured: number, variance: number, dt: number): KalmanAxis {
+  const q = KALMAN_ACCELERATION_NOISE * KALMAN_ACCELERATION_NOISE;
+
+  // Predict.
+  const position = axis.position + axis.velocity * dt;
+  const p00 = axis.p00 + 2 * dt * axis.p01 + dt * dt * axis.p11 + (q * dt ** 4) / 4;
+  const p01 = axis.p01 + dt * axis.p11 + (q * dt ** 3) / 2;
+  const p11 = axis.p11 + q * dt * dt;
+
+  // Update with the measured position, weighted by its reported accuracy.
+  const innovation = measured - position;
+  const s = p00 + variance;
+  const k0 = p00 / s;
+  const k1 = p01 / s;
+  return {
+    position: position + k0 * innovation,
+    velocity: axis.velocity + k1 * innovation,
+    p00: (1 - k0) * p00,
+    p01: (1 - k0) * p01,
+    p11: p11 - k1 * p01,
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]!
+    : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
+
+// Returns the position the pipeline should measure from for this sample.
+export function smoothSample(
+  state: GpsFilterState,
+  sample: LocationSample
+): { state: GpsFilterState; point: LatLng } {
+  const raw: LatLng = { latitude: sample.latitude, longitude: sample.longitude };
+
+  if (state.kind === 'median') {
+    const window = [...state.window, raw].slice(-MEDIAN_WINDOW_SIZE);
+    return {
+      state: { kind: 'median', window },
+      point: {
+        latitude: median(window.map((point) => point.latitude)),
+        longitude: median(window.map((point) => point.longitude)),
+      },
+    };
+  }
+
+  if (state.kind === 'kalman') {
+    const accuracy = Math.max(
+      KALMAN_MIN_ACCURACY_METERS,
+      sample.accuracyMeters ?? KALMAN_DEFAULT_ACCURACY_METERS
+    );
+    const variance = accuracy * accuracy;
+    const origin = state.origin ?? raw;
+    const measured = toLocalMeters(origin, raw);
+    const dt = state.lastTimeMs === null ? 0 : (sample.timestamp - state.lastTimeMs) / 1000;
+
+    if (!state.east || !state.north || dt <= 0) {
+      const east = state.east && dt <= 0 ? state.east : createKalmanAxis(measured.east, variance);
+      const north = state.north && dt <= 0 ? state.north : createKalmanAxis(measured.north, variance);
+      return {
+        state: { kind: 'kalman', origin, lastTimeMs: state.lastTimeMs ?? sample.timestamp, east, north },
+        point: fromLocalMeters(origin, east.position, north.position),
+      };
+    }
+
+    const east = stepKalmanAxis(state.east, measured.east, variance, dt);
+    const north = stepKalmanAxis(state.north, measured.north, variance, dt);
+    return {
+      state: { kind: 'kalman', origin, lastTimeMs: sample.timestamp, east, north },
+      point: fromLocalMeters(origin, east.position, north.position),
+    };
+  }
+
+  return { state, point: raw };
+}
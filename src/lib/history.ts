@@ -1,32 +1,118 @@
 import { LatLng } from './types';
-import { FareRuntime } from './fare';
+import { FareModel, FarePreset, FareRuntime } from './fare';
+import { buildHistoryCsv, CsvColumnId, CsvRowMode } from './csvExport';
+import { AppliedDiscount, checkAppliedDiscount, checkDiscountRule, DiscountRule } from './discounts';
+import { EXTRA_CHARGE_CATEGORIES, ExtraCharge } from './extraCharges';
+import { DistanceMethod } from './geo';
+import {
+  backupPath,
+  deleteFileWithBackup,
+  documentPath,
+  FileSystem,
+} from './fileSystem';
+import { GpsFilterKind } from './gpsFilter';
+import {
+  checkArrayOf,
+  checkLatLngOrNull,
+  checkNumber,
+  checkOneOf,
+  checkOptional,
+  checkString,
+  collectErrors,
+  isRecord,
+  migrateStoredFile,
+  parseStoredFile,
+  quarantineRecords,
+  StorageSchema,
+  StoredFile,
+  writeStoredFile,
+} from './storage';
+import { TrackPoint } from './track';
+import { buildGeoJson, buildGpx } from './trackExport';
 
-type FileInfo = { exists: boolean };
-type ExpoFileSystem = {
-  documentDirectory: string | null;
-  getInfoAsync: (fileUri: string) => Promise<FileInfo>;
-  readAsStringAsync: (fileUri: string) => Promise<string>;
-  writeAsStringAsync: (fileUri: string, contents: string) => Promise<void>;
-};
+// Rides are stored in one file per calendar month of startedAtMs, plus an index of the months.
+// A finished ride is first written to a file of its own and folded into its month at the next
+// startup. The single file from before chunking is split up at startup.
+const LEGACY_HISTORY_FILE = documentPath('drive-history-v1.json');
+const HISTORY_INDEX_FILE = documentPath('drive-history-index.json');
+const HISTORY_CHUNK_PATTERN = /^drive-history-(\d{4}-\d{2})\.json$/;
+// drive-history-<month>.append-<startedAtMs>-<createdAtMs>.json
+const HISTORY_APPEND_PATTERN = /^drive-history-(\d{4}-\d{2})\.append-(\d+)-(\d+)\.json$/;
+const SESSION_SNAPSHOT_FILE = documentPath('session-snapshot-v1.json');
 
-// Avoid static type resolution dependency so the app can compile in constrained environments.
-const FileSystem = require('expo-file-system') as ExpoFileSystem;
+export const HISTORY_PAGE_SIZE = 20;
 
-const HISTORY_FILE = `${FileSystem.documentDirectory ?? ''}drive-history-v1.json`;
-const SESSION_SNAPSHOT_FILE = `${FileSystem.documentDirectory ?? ''}session-snapshot-v1.json`;
-const MAX_HISTORY_ITEMS = 100;
+export const SESSION_EVENT_TYPES = [
+  'start',
+  'pause',
+  'resume',
+  'finish',
+  'surcharge_start',
+  'surcharge_end',
+  'restore',
+  'extra_charge',
+  'extra_charge_cancel',
+] as const;
 
 export type SessionEvent = {
   atMs: number;
-  type: 'start' | 'pause' | 'resume' | 'finish';
+  type: (typeof SESSION_EVENT_TYPES)[number];
+  // ExtraCharge.id on extra_charge and extra_charge_cancel events.
+  extraChargeId?: string;
+};
+
+// Time between the last snapshot and a restore, when the app was not running. The user decides
+// whether it is billed as waiting time or counted as a pause.
+export type RecoveryGap = {
+  fromMs: number;
+  toMs: number;
+  treatment: 'waiting' | 'pause';
 };
 
+// 'imported' rides were played back from a GPX/NMEA file and 'synthetic' ones generated from a
+// scripted speed profile; only 'live' rides were actually driven.
+export type RideSource = 'live' | 'imported' | 'synthetic';
+
 export type PauseLog = {
   pausedAtMs: number;
   resumedAtMs: number;
   durationMs: number;
 };
 
+export type HistoryAnnotations = {
+  notes: string;
+  tags: string[];
+  passengerCount: number | null;
+};
+
+export type HistoryAuditChange = {
+  field: keyof HistoryAnnotations;
+  from: string | string[] | number | null;
+  to: string | string[] | number | null;
+};
+
+export const HISTORY_AUDIT_ACTIONS = ['edit', 'delete', 'undo_delete', 'receipt'] as const;
+
+export const HISTORY_AUDIT_ACTION_LABELS: Record<HistoryAuditEntry['action'], string> = {
+  edit: '編集',
+  delete: '削除',
+  undo_delete: '削除の取り消し',
+  receipt: '領収書発行',
+};
+
+export const ANNOTATION_FIELD_LABELS: Record<keyof HistoryAnnotations, string> = {
+  notes: 'メモ',
+  tags: 'タグ',
+  passengerCount: '乗車人数',
+};
+
+export type HistoryAuditEntry = {
+  atMs: number;
+  action: (typeof HISTORY_AUDIT_ACTIONS)[number];
+  // Only set for 'edit'.
+  changes?: HistoryAuditChange[];
+};
+
 export type DriveHistoryItem = {
   id: string;
   createdAtMs: number;
@@ -34,14 +120,55 @@ export type DriveHistoryItem = {
   finishedAtMs: number;
   elapsedMs: number;
   distanceKm: number;
+  // Estimated distance across filtered GPS gaps. Billed in fareYen but not part of distanceKm.
+  // Missing on rides recorded before gap bridging.
+  bridgedDistanceKm?: number;
   fareYen: number;
   presetId: string;
+  // Missing on rides recorded before trace import; those were all 'live'.
+  source?: RideSource;
+  // Name of the imported trace file when source is 'imported'.
+  traceFileName?: string;
+  // Scenario text when source is 'synthetic'.
+  scenario?: string;
+  // Missing on rides recorded before the combined model; those used 'legacy'.
+  fareModel?: FareModel;
+  // Tariff revision locked in at startedAtMs. Missing on rides recorded before revisions existed.
+  revisionId?: string;
   from: LatLng | null;
   to: LatLng | null;
   acceptedSamples: number;
   filteredSamples: number;
   distanceChargeSteps: number;
   timeChargeSteps: number;
+  // Missing on rides recorded before surcharge support.
+  surchargeChargeSteps?: number;
+  distanceModeKm?: number;
+  lowSpeedSeconds?: number;
+  // Missing on rides recorded before filter selection; those used 'threshold'.
+  gpsFilter?: GpsFilterKind;
+  // Missing on rides recorded before distance methods; those used 'spherical'.
+  distanceMethod?: DistanceMethod;
+  // Annotations entered after the ride. Missing until first edited.
+  notes?: string;
+  tags?: string[];
+  passengerCount?: number;
+  // Every edit and delete, oldest first. Rides feed expense reports, so changes stay traceable.
+  auditLog?: HistoryAuditEntry[];
+  // Deleted rides stay on disk (hidden everywhere) so the delete can be undone and audited.
+  deletedAtMs?: number;
+  // Number of the first receipt issued for the ride; reprints reuse it. Missing until issued.
+  receiptNumber?: number;
+  // Decimated accepted points. Missing on rides recorded before tracks were stored.
+  track?: TrackPoint[];
+  // Missing on rides that were never restored from a snapshot.
+  recoveryGaps?: RecoveryGap[];
+  // Charges on top of fareYen, which stays the metered fare. Missing on rides recorded before
+  // extra charges; those had none.
+  extraCharges?: ExtraCharge[];
+  // Discounts taken off fareYen, in the order applied. Missing on rides recorded before
+  // discounts; those had none.
+  discounts?: AppliedDiscount[];
   pauseLogs: PauseLog[];
   events: SessionEvent[];
 };
@@ -52,63 +179,936 @@ export type SessionSnapshot = {
   startedAtMs: number;
   elapsedMs: number;
   distanceKm: number;
+  bridgedDistanceKm?: number;
   fareYen: number;
   billingMode: 'distance' | 'time' | 'unknown';
   selectedPresetId: string;
+  fareModel?: FareModel;
+  gpsFilter?: GpsFilterKind;
+  distanceMethod?: DistanceMethod;
   acceptedSamples: number;
   filteredSamples: number;
   fareRuntime: FareRuntime;
   from: LatLng | null;
   to: LatLng | null;
+  track?: TrackPoint[];
+  recoveryGaps?: RecoveryGap[];
+  // Set when the snapshot was saved while paused.
+  pauseStartedAtMs?: number | null;
+  extraCharges?: ExtraCharge[];
+  // Rules selected for the ride; applied to the fare when it finishes.
+  discountRules?: DiscountRule[];
   pauseLogs: PauseLog[];
   events: SessionEvent[];
 };
 
-export async function loadDriveHistory(): Promise<DriveHistoryItem[]> {
+export function isSimulatedRide(item: Pick<DriveHistoryItem, 'source'>): boolean {
+  return item.source === 'imported' || item.source === 'synthetic';
+}
+
+// Live rides are identified by their start and finish times. Played-back rides take both from
+// the trace, so replaying one twice would collide; they also carry the source and when the
+// record was made.
+export function buildRideId(
+  item: Pick<DriveHistoryItem, 'startedAtMs' | 'finishedAtMs' | 'createdAtMs' | 'source'>
+): string {
+  const base = `${item.startedAtMs}-${item.finishedAtMs}`;
+  return isSimulatedRide(item) ? `${base}-${item.source}-${item.createdAtMs}` : base;
+}
+
+// v1 files were a bare array (or a bare snapshot object). v2 wraps them in a schema envelope and
+// writes out the defaults that older records only implied.
+const V1_RIDE_DEFAULTS = { fareModel: 'legacy', gpsFilter: 'threshold', distanceMethod: 'spherical' };
+
+export const HISTORY_SCHEMA: StorageSchema = {
+  name: 'drive-history',
+  currentVersion: 2,
+  migrations: {
+    1: (data) =>
+      Array.isArray(data)
+        ? data.map((record) =>
+            isRecord(record) ? { ...V1_RIDE_DEFAULTS, source: 'live', ...record } : record
+          )
+        : data,
+  },
+};
+
+export const SNAPSHOT_SCHEMA: StorageSchema = {
+  name: 'session-snapshot',
+  currentVersion: 2,
+  migrations: {
+    1: (data) => (isRecord(data) ? { ...V1_RIDE_DEFAULTS, ...data } : data),
+  },
+};
+
+const FARE_MODELS = ['combined', 'legacy'] as const;
+const RIDE_SOURCES = ['live', 'imported', 'synthetic'] as const;
+const GPS_FILTERS = ['threshold', 'kalman', 'median'] as const;
+const DISTANCE_METHODS = ['spherical', 'ellipsoidal', 'ellipsoidal3d'] as const;
+
+function checkPauseLog(log: Record<string, unknown>): (string | null)[] {
+  return [
+    checkNumber(log, 'pausedAtMs'),
+    checkNumber(log, 'resumedAtMs'),
+    checkNumber(log, 'durationMs'),
+  ];
+}
+
+function checkEvent(event: Record<string, unknown>): (string | null)[] {
+  return [
+    checkNumber(event, 'atMs'),
+    checkOneOf(event, 'type', SESSION_EVENT_TYPES),
+    checkOptional(event, 'extraChargeId', checkString),
+  ];
+}
+
+function checkExtraCharge(charge: Record<string, unknown>): (string | null)[] {
+  return [
+    checkString(charge, 'id'),
+    checkOneOf(charge, 'category', EXTRA_CHARGE_CATEGORIES),
+    checkNumber(charge, 'amountYen'),
+    checkNumber(charge, 'atMs'),
+  ];
+}
+
+function checkTrackPoint(point: Record<string, unknown>): (string | null)[] {
+  return [
+    checkNumber(point, 'latitude'),
+    checkNumber(point, 'longitude'),
+    checkNumber(point, 'atMs'),
+    checkNumber(point, 'speedKmh'),
+  ];
+}
+
+function checkStringArray(record: Record<string, unknown>, key: string): string | null {
+  const value = record[key];
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+    ? null
+    : `${key}: 文字列の配列ではありません`;
+}
+
+function checkAuditEntry(entry: Record<string, unknown>): (string | null)[] {
+  return [
+    checkNumber(entry, 'atMs'),
+    checkOneOf(entry, 'action', HISTORY_AUDIT_ACTIONS),
+    checkOptional(entry, 'changes', (r, key) =>
+      checkArrayOf(r, key, (change) => [
+        checkOneOf(change, 'field', ['notes', 'tags', 'passengerCount']),
+      ])
+    ),
+  ];
+}
+
+function checkFareRuntime(record: Record<string, unknown>, key: string): string | null {
+  const runtime = record[key];
+  if (!isRecord(runtime)) return `${key}: オブジェクトではありません`;
+  const [error] = collectErrors([
+    checkNumber(runtime, 'baseDistanceRemainingKm'),
+    checkNumber(runtime, 'distanceChargeSteps'),
+    checkNumber(runtime, 'timeChargeSteps'),
+    checkNumber(runtime, 'fareYen'),
+  ]);
+  return error ? `${key}.${error}` : null;
+}
+
+function checkRecoveryGap(gap: Record<string, unknown>): (string | null)[] {
+  return [
+    checkNumber(gap, 'fromMs'),
+    checkNumber(gap, 'toMs'),
+    checkOneOf(gap, 'treatment', ['waiting', 'pause']),
+  ];
+}
+
+// Fields shared by history items and snapshots.
+function checkRideFields(record: Record<string, unknown>): (string | null)[] {
+  return [
+    checkNumber(record, 'startedAtMs'),
+    checkNumber(record, 'elapsedMs'),
+    checkNumber(record, 'distanceKm'),
+    checkOptional(record, 'bridgedDistanceKm', checkNumber),
+    checkNumber(record, 'fareYen'),
+    checkOptional(record, 'fareModel', (r, key) => checkOneOf(r, key, FARE_MODELS)),
+    checkOptional(record, 'gpsFilter', (r, key) => checkOneOf(r, key, GPS_FILTERS)),
+    checkOptional(record, 'distanceMethod', (r, key) => checkOneOf(r, key, DISTANCE_METHODS)),
+    checkNumber(record, 'acceptedSamples'),
+    checkNumber(record, 'filteredSamples'),
+    checkLatLngOrNull(record, 'from'),
+    checkLatLngOrNull(record, 'to'),
+    checkOptional(record, 'track', (r, key) => checkArrayOf(r, key, checkTrackPoint)),
+    checkOptional(record, 'recoveryGaps', (r, key) => checkArrayOf(r, key, checkRecoveryGap)),
+    checkOptional(record, 'extraCharges', (r, key) => checkArrayOf(r, key, checkExtraCharge)),
+    checkArrayOf(record, 'pauseLogs', checkPauseLog),
+    checkArrayOf(record, 'events', checkEvent),
+  ];
+}
+
+export function validateDriveHistoryItem(value: unknown): string[] {
+  if (!isRecord(value)) return ['オブジェクトではありません'];
+  return collectErrors([
+    checkString(value, 'id'),
+    checkNumber(value, 'createdAtMs'),
+    checkNumber(value, 'finishedAtMs'),
+    checkString(value, 'presetId'),
+    checkOptional(value, 'source', (r, key) => checkOneOf(r, key, RIDE_SOURCES)),
+    checkOptional(value, 'traceFileName', checkString),
+    checkOptional(value, 'scenario', checkString),
+    checkOptional(value, 'revisionId', checkString),
+    checkOptional(value, 'notes', checkString),
+    checkOptional(value, 'tags', checkStringArray),
+    checkOptional(value, 'passengerCount', checkNumber),
+    checkOptional(value, 'auditLog', (r, key) => checkArrayOf(r, key, checkAuditEntry)),
+    checkOptional(value, 'deletedAtMs', checkNumber),
+    checkOptional(value, 'receiptNumber', checkNumber),
+    checkNumber(value, 'distanceChargeSteps'),
+    checkNumber(value, 'timeChargeSteps'),
+    checkOptional(value, 'surchargeChargeSteps', checkNumber),
+    checkOptional(value, 'distanceModeKm', checkNumber),
+    checkOptional(value, 'lowSpeedSeconds', checkNumber),
+    checkOptional(value, 'discounts', (r, key) => checkArrayOf(r, key, checkAppliedDiscount)),
+    ...checkRideFields(value),
+  ]);
+}
+
+export function validateSessionSnapshot(value: unknown): string[] {
+  if (!isRecord(value)) return ['オブジェクトではありません'];
+  return collectErrors([
+    checkNumber(value, 'savedAtMs'),
+    checkOneOf(value, 'sessionState', ['running', 'paused']),
+    checkOneOf(value, 'billingMode', ['distance', 'time', 'unknown']),
+    checkString(value, 'selectedPresetId'),
+    checkFareRuntime(value, 'fareRuntime'),
+    checkOptional(value, 'pauseStartedAtMs', (r, key) => (r[key] === null ? null : checkNumber(r, key))),
+    checkOptional(value, 'discountRules', (r, key) => checkArrayOf(r, key, checkDiscountRule)),
+    ...checkRideFields(value),
+  ]);
+}
+
+type InvalidRecord = { reasons: string[]; record: unknown };
+
+function partitionHistory(data: unknown): { items: DriveHistoryItem[]; invalid: InvalidRecord[] } {
+  if (!Array.isArray(data)) {
+    return { items: [], invalid: [{ reasons: ['履歴が配列ではありません'], record: data }] };
+  }
+  const items: DriveHistoryItem[] = [];
+  const invalid: InvalidRecord[] = [];
+  data.forEach((record) => {
+    const reasons = validateDriveHistoryItem(record);
+    if (reasons.length === 0) {
+      items.push(record as DriveHistoryItem);
+    } else {
+      invalid.push({ reasons, record });
+    }
+  });
+  return { items, invalid };
+}
+
+// A copy of a file that could not be parsed or migrated, kept for the quarantine file.
+type DamagedCopy = { raw: string; reason: string };
+
+// What reading a versioned file found. 'unsupported' files were written by a newer app version;
+// 'unreadable' ones could not be parsed or migrated, and neither could their backup. damaged
+// lists the copies that were skipped on the way.
+type StoredFileRead =
+  | { status: 'missing' }
+  | { status: 'ok'; file: StoredFile; damaged: DamagedCopy[] }
+  | { status: 'unsupported'; schemaVersion: number }
+  | { status: 'unreadable'; damaged: DamagedCopy[] };
+
+// Files found to be from a newer app version. This version never writes over or deletes them.
+const unsupportedFiles = new Set<string>();
+// Files whose unreadable contents could not be quarantined. They are left as they are.
+const damagedFiles = new Set<string>();
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Reads and upgrades a versioned file, falling back to the last good copy when the current one
+// is missing or cannot be parsed. A newer version in either copy stops the read, so the file is
+// never mistaken for missing and replaced.
+async function readStoredFile(schema: StorageSchema, fileUri: string): Promise<StoredFileRead> {
+  const damaged: DamagedCopy[] = [];
+  for (const uri of [fileUri, backupPath(fileUri)]) {
+    let raw: string;
+    try {
+      const info = await FileSystem.getInfoAsync(uri);
+      if (!info.exists) continue;
+      raw = await FileSystem.readAsStringAsync(uri);
+    } catch {
+      continue;
+    }
+
+    let stored: StoredFile;
+    try {
+      stored = parseStoredFile(raw);
+    } catch {
+      damaged.push({ raw, reason: 'JSONとして読み取れません' });
+      continue;
+    }
+    if (stored.schemaVersion > schema.currentVersion) {
+      unsupportedFiles.add(fileUri);
+      return { status: 'unsupported', schemaVersion: stored.schemaVersion };
+    }
+    try {
+      return { status: 'ok', file: migrateStoredFile(schema, stored), damaged };
+    } catch (error) {
+      damaged.push({ raw, reason: describeError(error) });
+    }
+  }
+  return damaged.length > 0 ? { status: 'unreadable', damaged } : { status: 'missing' };
+}
+
+function checkWritable(fileUri: string): void {
+  const name = fileUri.slice(fileUri.lastIndexOf('/') + 1);
+  if (unsupportedFiles.has(fileUri)) {
+    throw new Error(
+      `${name} は新しいバージョンのアプリで保存されたため、このバージョンでは変更できません`
+    );
+  }
+  if (damagedFiles.has(fileUri)) {
+    throw new Error(`${name} を読み込めず退避もできなかったため、上書きせずに残しています`);
+  }
+}
+
+async function writeVersionedFile(
+  schema: StorageSchema,
+  fileUri: string,
+  data: unknown
+): Promise<void> {
+  checkWritable(fileUri);
+  await writeStoredFile(schema, fileUri, data);
+}
+
+async function deleteVersionedFile(fileUri: string): Promise<void> {
+  checkWritable(fileUri);
+  await deleteFileWithBackup(fileUri);
+}
+
+export type HistoryChunkInfo = {
+  // Local calendar month, e.g. '2026-10'.
+  month: string;
+  schemaVersion: number;
+  // Stored rides, including deleted ones.
+  count: number;
+  deletedCount: number;
+  newestStartedAtMs: number;
+  oldestStartedAtMs: number;
+};
+
+export const HISTORY_INDEX_SCHEMA: StorageSchema = {
+  name: 'drive-history-index',
+  currentVersion: 1,
+  migrations: {},
+};
+
+// Position after the last item of a page: the month chunk and the offset within it.
+export type HistoryCursor = {
+  month: string;
+  offset: number;
+};
+
+export type HistoryPage = {
+  items: DriveHistoryItem[];
+  nextCursor: HistoryCursor | null;
+  totalCount: number;
+};
+
+export function getHistoryMonth(atMs: number): string {
+  const date = new Date(atMs);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function chunkFileUri(month: string): string {
+  return documentPath(`drive-history-${month}.json`);
+}
+
+function sortNewestFirst(items: DriveHistoryItem[]): DriveHistoryItem[] {
+  return [...items].sort((a, b) => b.startedAtMs - a.startedAtMs);
+}
+
+function describeChunk(month: string, items: DriveHistoryItem[]): HistoryChunkInfo {
+  return {
+    month,
+    schemaVersion: HISTORY_SCHEMA.currentVersion,
+    count: items.length,
+    deletedCount: items.filter((item) => item.deletedAtMs !== undefined).length,
+    newestStartedAtMs: items[0]?.startedAtMs ?? 0,
+    oldestStartedAtMs: items[items.length - 1]?.startedAtMs ?? 0,
+  };
+}
+
+function checkChunkInfo(info: Record<string, unknown>): (string | null)[] {
+  return [
+    checkString(info, 'month'),
+    checkNumber(info, 'schemaVersion'),
+    checkNumber(info, 'count'),
+    checkNumber(info, 'deletedCount'),
+    checkNumber(info, 'newestStartedAtMs'),
+    checkNumber(info, 'oldestStartedAtMs'),
+  ];
+}
+
+// Reads a month chunk or an appended ride. Unreadable copies and invalid records are moved to the
+// quarantine file and the file is rewritten without them before the rides are returned, so a
+// later write never replaces rides that were not loaded. When that fails the file is left as it
+// is and refuses writes. Files from a newer app version read as empty and refuse writes too.
+async function readRideFile(fileUri: string): Promise<DriveHistoryItem[]> {
+  const read = await readStoredFile(HISTORY_SCHEMA, fileUri);
+  if (read.status === 'missing' || read.status === 'unsupported') return [];
+
+  const { items, invalid } =
+    read.status === 'ok' ? partitionHistory(read.file.data) : { items: [], invalid: [] };
+  if (read.damaged.length === 0 && invalid.length === 0) return items;
   try {
-    const info = await FileSystem.getInfoAsync(HISTORY_FILE);
-    if (!info.exists) return [];
+    await quarantineRecords(
+      HISTORY_SCHEMA.name,
+      null,
+      read.damaged.map((copy) => ({ reasons: [copy.reason], record: copy.raw }))
+    );
+    await quarantineRecords(HISTORY_SCHEMA.name, HISTORY_SCHEMA.currentVersion, invalid);
+    if (items.length === 0) {
+      await deleteVersionedFile(fileUri);
+    } else {
+      await writeVersionedFile(HISTORY_SCHEMA, fileUri, sortNewestFirst(items));
+    }
+  } catch {
+    damagedFiles.add(fileUri);
+  }
+  return items;
+}
+
+type AppendedRide = {
+  month: string;
+  startedAtMs: number;
+  createdAtMs: number;
+  fileUri: string;
+};
 
-    const raw = await FileSystem.readAsStringAsync(HISTORY_FILE);
-    const parsed = JSON.parse(raw) as DriveHistoryItem[];
-    if (!Array.isArray(parsed)) return [];
+function appendedRideFileUri(item: DriveHistoryItem): string {
+  const month = getHistoryMonth(item.startedAtMs);
+  return documentPath(`drive-history-${month}.append-${item.startedAtMs}-${item.createdAtMs}.json`);
+}
 
-    return parsed;
+// Month chunks and appended rides on disk. Appended rides are oldest first.
+async function listHistoryFiles(): Promise<{ months: string[]; appended: AppendedRide[] }> {
+  let names: string[];
+  try {
+    names = await FileSystem.readDirectoryAsync(documentPath(''));
   } catch {
-    return [];
+    return { months: [], appended: [] };
+  }
+  const months: string[] = [];
+  const appended: AppendedRide[] = [];
+  names.forEach((name) => {
+    const chunk = HISTORY_CHUNK_PATTERN.exec(name);
+    if (chunk) {
+      months.push(chunk[1]!);
+      return;
+    }
+    const ride = HISTORY_APPEND_PATTERN.exec(name);
+    if (ride) {
+      appended.push({
+        month: ride[1]!,
+        startedAtMs: Number(ride[2]),
+        createdAtMs: Number(ride[3]),
+        fileUri: documentPath(name),
+      });
+    }
+  });
+  appended.sort((a, b) => a.createdAtMs - b.createdAtMs);
+  return { months, appended };
+}
+
+type MonthRides = {
+  items: DriveHistoryItem[];
+  // Appended ride files included in items, deleted once items are written to the chunk.
+  appendedUris: string[];
+};
+
+// A month's chunk plus the rides appended to it since, newest first. A ride appended again
+// replaces the earlier copy.
+async function readHistoryMonth(month: string, appended: AppendedRide[]): Promise<MonthRides> {
+  const byId = new Map<string, DriveHistoryItem>();
+  (await readRideFile(chunkFileUri(month))).forEach((item) => byId.set(item.id, item));
+  const appendedUris: string[] = [];
+  for (const ride of appended) {
+    if (ride.month !== month) continue;
+    (await readRideFile(ride.fileUri)).forEach((item) => byId.set(item.id, item));
+    appendedUris.push(ride.fileUri);
+  }
+  return { items: sortNewestFirst([...byId.values()]), appendedUris };
+}
+
+async function saveHistoryIndex(chunks: HistoryChunkInfo[]): Promise<void> {
+  // The index is rebuilt from the chunks whenever needed, so one from a newer version is left
+  // as it is and this version keeps its index in memory.
+  if (unsupportedFiles.has(HISTORY_INDEX_FILE)) return;
+  const sorted = chunks
+    .filter((chunk) => chunk.count > 0)
+    .sort((a, b) => b.month.localeCompare(a.month));
+  await writeVersionedFile(HISTORY_INDEX_SCHEMA, HISTORY_INDEX_FILE, { chunks: sorted });
+}
+
+// Reads every chunk on disk. Only needed when the index is missing or out of step with the files.
+async function rebuildHistoryIndex(months?: string[]): Promise<HistoryChunkInfo[]> {
+  const chunks: HistoryChunkInfo[] = [];
+  for (const month of months ?? (await listHistoryFiles()).months) {
+    chunks.push(describeChunk(month, await readRideFile(chunkFileUri(month))));
+  }
+  await saveHistoryIndex(chunks);
+  return chunks.filter((chunk) => chunk.count > 0).sort((a, b) => b.month.localeCompare(a.month));
+}
+
+async function readStoredHistoryIndex(): Promise<HistoryChunkInfo[] | null> {
+  const read = await readStoredFile(HISTORY_INDEX_SCHEMA, HISTORY_INDEX_FILE);
+  if (read.status !== 'ok' || !isRecord(read.file.data)) return null;
+  const indexErrors = collectErrors([checkArrayOf(read.file.data, 'chunks', checkChunkInfo)]);
+  return indexErrors.length === 0 ? (read.file.data.chunks as HistoryChunkInfo[]) : null;
+}
+
+// The stored index covers the chunks only; appended rides are counted in from their file names.
+function addAppendedRides(index: HistoryChunkInfo[], appended: AppendedRide[]): HistoryChunkInfo[] {
+  const byMonth = new Map(index.map((chunk) => [chunk.month, { ...chunk }]));
+  appended.forEach((ride) => {
+    const chunk = byMonth.get(ride.month);
+    if (!chunk) {
+      byMonth.set(ride.month, {
+        month: ride.month,
+        schemaVersion: HISTORY_SCHEMA.currentVersion,
+        count: 1,
+        deletedCount: 0,
+        newestStartedAtMs: ride.startedAtMs,
+        oldestStartedAtMs: ride.startedAtMs,
+      });
+      return;
+    }
+    chunk.count += 1;
+    chunk.newestStartedAtMs = Math.max(chunk.newestStartedAtMs, ride.startedAtMs);
+    chunk.oldestStartedAtMs = Math.min(chunk.oldestStartedAtMs, ride.startedAtMs);
+  });
+  return [...byMonth.values()].sort((a, b) => b.month.localeCompare(a.month));
+}
+
+async function loadHistoryView(): Promise<{ index: HistoryChunkInfo[]; appended: AppendedRide[] }> {
+  const { months, appended } = await listHistoryFiles();
+  const stored = (await readStoredHistoryIndex()) ?? (await rebuildHistoryIndex(months));
+  return { index: addAppendedRides(stored, appended), appended };
+}
+
+// Newest month first.
+export async function loadHistoryIndex(): Promise<HistoryChunkInfo[]> {
+  return (await loadHistoryView()).index;
+}
+
+// Writes a month's rides to its chunk and drops the appended ride files they were read from. A
+// stop in between leaves those files to be folded in again, which replaces rides by id.
+async function writeHistoryChunk(
+  month: string,
+  items: DriveHistoryItem[],
+  appendedUris: string[] = []
+): Promise<void> {
+  const sorted = sortNewestFirst(items);
+  if (sorted.length === 0) {
+    await deleteVersionedFile(chunkFileUri(month));
+  } else {
+    await writeVersionedFile(HISTORY_SCHEMA, chunkFileUri(month), sorted);
+  }
+  // A missing or invalid index is rebuilt from the chunks on the next load.
+  const index = await readStoredHistoryIndex();
+  if (index) {
+    await saveHistoryIndex([
+      ...index.filter((chunk) => chunk.month !== month),
+      describeChunk(month, sorted),
+    ]);
+  }
+  for (const uri of appendedUris) {
+    await deleteVersionedFile(uri);
   }
 }
 
+// Pages run newest first across month chunks, so only the chunks a page touches are read.
+export async function loadDriveHistoryPage(
+  cursor: HistoryCursor | null,
+  pageSize = HISTORY_PAGE_SIZE
+): Promise<HistoryPage> {
+  const { index, appended } = await loadHistoryView();
+  const totalCount = index.reduce((sum, chunk) => sum + chunk.count - chunk.deletedCount, 0);
+  let position = cursor ? index.findIndex((chunk) => chunk.month === cursor.month) : 0;
+  let offset = cursor?.offset ?? 0;
+  if (position < 0) return { items: [], nextCursor: null, totalCount };
+
+  const items: DriveHistoryItem[] = [];
+  while (position < index.length && items.length < pageSize) {
+    const chunk = (await readHistoryMonth(index[position]!.month, appended)).items;
+    // The offset counts stored rides, so deleted ones are stepped over rather than filtered out.
+    while (offset < chunk.length && items.length < pageSize) {
+      const item = chunk[offset]!;
+      if (item.deletedAtMs === undefined) items.push(item);
+      offset += 1;
+    }
+    if (offset >= chunk.length) {
+      position += 1;
+      offset = 0;
+    }
+  }
+
+  const next = index[position];
+  return { items, nextCursor: next ? { month: next.month, offset } : null, totalCount };
+}
+
+// Newest first. A startedAtMs range skips month chunks that cannot contain a match; rides in the
+// chunks that are read are returned unfiltered. Deleted rides are left out unless asked for.
+export async function loadDriveHistory(
+  options: { fromMs?: number | null; toMs?: number | null; includeDeleted?: boolean } = {}
+): Promise<DriveHistoryItem[]> {
+  const { fromMs = null, toMs = null, includeDeleted = false } = options;
+  const { index, appended } = await loadHistoryView();
+  const items: DriveHistoryItem[] = [];
+  for (const chunk of index) {
+    if (fromMs !== null && chunk.newestStartedAtMs < fromMs) continue;
+    if (toMs !== null && chunk.oldestStartedAtMs >= toMs) continue;
+    const stored = (await readHistoryMonth(chunk.month, appended)).items;
+    items.push(...(includeDeleted ? stored : stored.filter((item) => item.deletedAtMs === undefined)));
+  }
+  return items;
+}
+
+// Append-only: the ride gets a file of its own, and no chunk or index is rewritten. Appended rides
+// are folded into their month chunk at the next startup.
 export async function appendDriveHistory(item: DriveHistoryItem): Promise<void> {
-  const current = await loadDriveHistory();
-  const next = [item, ...current].slice(0, MAX_HISTORY_ITEMS);
-  await FileSystem.writeAsStringAsync(HISTORY_FILE, JSON.stringify(next));
+  await writeVersionedFile(HISTORY_SCHEMA, appendedRideFileUri(item), [item]);
 }
 
-export async function exportDriveHistoryJson(): Promise<string> {
-  const current = await loadDriveHistory();
-  const exportPath = `${FileSystem.documentDirectory ?? ''}drive-history-export-${Date.now()}.json`;
-  await FileSystem.writeAsStringAsync(exportPath, JSON.stringify(current, null, 2));
-  return exportPath;
+function groupByMonth(items: DriveHistoryItem[]): Map<string, DriveHistoryItem[]> {
+  const byMonth = new Map<string, DriveHistoryItem[]>();
+  items.forEach((item) => {
+    const month = getHistoryMonth(item.startedAtMs);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), item]);
+  });
+  return byMonth;
 }
 
-export async function loadSessionSnapshot(): Promise<SessionSnapshot | null> {
+// Writes rides into their month chunks, each chunk once. A ride replaces a stored one with the
+// same id.
+export async function mergeDriveHistoryItems(items: DriveHistoryItem[]): Promise<void> {
+  const { appended } = await listHistoryFiles();
+  for (const [month, incoming] of groupByMonth(items)) {
+    const ids = new Set(incoming.map((item) => item.id));
+    const existing = await readHistoryMonth(month, appended);
+    await writeHistoryChunk(
+      month,
+      [...incoming, ...existing.items.filter((item) => !ids.has(item.id))],
+      existing.appendedUris
+    );
+  }
+}
+
+// Makes items the whole stored history, deleted rides included. Chunks for months without any
+// of the items and all appended rides are removed, and the index is written once at the end.
+export async function replaceDriveHistory(items: DriveHistoryItem[]): Promise<void> {
+  const byMonth = groupByMonth(items);
+  const files = await listHistoryFiles();
+  for (const month of files.months) {
+    if (!byMonth.has(month)) await deleteVersionedFile(chunkFileUri(month));
+  }
+  for (const ride of files.appended) {
+    await deleteVersionedFile(ride.fileUri);
+  }
+  const chunks: HistoryChunkInfo[] = [];
+  for (const [month, monthItems] of byMonth) {
+    const sorted = sortNewestFirst(monthItems);
+    await writeVersionedFile(HISTORY_SCHEMA, chunkFileUri(month), sorted);
+    chunks.push(describeChunk(month, sorted));
+  }
+  await saveHistoryIndex(chunks);
+}
+
+// The stored copy of a ride, or null when it is no longer on disk.
+export async function loadDriveHistoryItem(
+  target: Pick<DriveHistoryItem, 'id' | 'startedAtMs'>
+): Promise<DriveHistoryItem | null> {
+  const { appended } = await listHistoryFiles();
+  const { items } = await readHistoryMonth(getHistoryMonth(target.startedAtMs), appended);
+  return items.find((item) => item.id === target.id) ?? null;
+}
+
+// Rewrites one stored ride. Returns null when the ride is no longer on disk.
+async function updateDriveHistoryItem(
+  target: Pick<DriveHistoryItem, 'id' | 'startedAtMs'>,
+  update: (item: DriveHistoryItem) => DriveHistoryItem
+): Promise<DriveHistoryItem | null> {
+  const month = getHistoryMonth(target.startedAtMs);
+  const { appended } = await listHistoryFiles();
+  const current = await readHistoryMonth(month, appended);
+  const existing = current.items.find((item) => item.id === target.id);
+  if (!existing) return null;
+  const updated = update(existing);
+  if (updated === existing) return existing;
+  await writeHistoryChunk(
+    month,
+    current.items.map((item) => (item.id === target.id ? updated : item)),
+    current.appendedUris
+  );
+  return updated;
+}
+
+function appendAuditEntry(item: DriveHistoryItem, entry: HistoryAuditEntry): DriveHistoryItem {
+  return { ...item, auditLog: [...(item.auditLog ?? []), entry] };
+}
+
+// Splits on commas and whitespace and drops duplicates, keeping the first spelling.
+export function parseTagsInput(text: string): string[] {
+  const tags = text
+    .split(/[,、，\s]+/)
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+  return tags.filter((tag, index) => tags.indexOf(tag) === index);
+}
+
+export function getHistoryAnnotations(item: DriveHistoryItem): HistoryAnnotations {
+  return {
+    notes: item.notes ?? '',
+    tags: item.tags ?? [],
+    passengerCount: item.passengerCount ?? null,
+  };
+}
+
+function diffAnnotations(before: HistoryAnnotations, after: HistoryAnnotations): HistoryAuditChange[] {
+  const changes: HistoryAuditChange[] = [];
+  if (before.notes !== after.notes) {
+    changes.push({ field: 'notes', from: before.notes, to: after.notes });
+  }
+  if (before.tags.join('\n') !== after.tags.join('\n')) {
+    changes.push({ field: 'tags', from: before.tags, to: after.tags });
+  }
+  if (before.passengerCount !== after.passengerCount) {
+    changes.push({ field: 'passengerCount', from: before.passengerCount, to: after.passengerCount });
+  }
+  return changes;
+}
+
+// Saves edited annotations with an audit entry listing each changed field. Unchanged edits are
+// not written.
+export async function annotateDriveHistoryItem(
+  target: Pick<DriveHistoryItem, 'id' | 'startedAtMs'>,
+  annotations: HistoryAnnotations,
+  nowMs = Date.now()
+): Promise<DriveHistoryItem | null> {
+  return updateDriveHistoryItem(target, (item) => {
+    const changes = diffAnnotations(getHistoryAnnotations(item), annotations);
+    if (changes.length === 0) return item;
+    const { notes, tags, passengerCount, ...rest } = item;
+    return appendAuditEntry(
+      {
+        ...rest,
+        ...(annotations.notes !== '' ? { notes: annotations.notes } : {}),
+        ...(annotations.tags.length > 0 ? { tags: annotations.tags } : {}),
+        ...(annotations.passengerCount !== null ? { passengerCount: annotations.passengerCount } : {}),
+      },
+      { atMs: nowMs, action: 'edit', changes }
+    );
+  });
+}
+
+// Every issue, reprints included, is audited; the first one fixes the ride's receipt number.
+export async function recordReceiptIssued(
+  target: Pick<DriveHistoryItem, 'id' | 'startedAtMs'>,
+  receiptNumber: number,
+  nowMs = Date.now()
+): Promise<DriveHistoryItem | null> {
+  return updateDriveHistoryItem(target, (item) =>
+    appendAuditEntry(
+      { ...item, receiptNumber: item.receiptNumber ?? receiptNumber },
+      { atMs: nowMs, action: 'receipt' }
+    )
+  );
+}
+
+export async function deleteDriveHistoryItem(
+  target: Pick<DriveHistoryItem, 'id' | 'startedAtMs'>,
+  nowMs = Date.now()
+): Promise<DriveHistoryItem | null> {
+  return updateDriveHistoryItem(target, (item) =>
+    appendAuditEntry({ ...item, deletedAtMs: nowMs }, { atMs: nowMs, action: 'delete' })
+  );
+}
+
+export async function undoDeleteDriveHistoryItem(
+  target: Pick<DriveHistoryItem, 'id' | 'startedAtMs'>,
+  nowMs = Date.now()
+): Promise<DriveHistoryItem | null> {
+  return updateDriveHistoryItem(target, (item) => {
+    const { deletedAtMs, ...rest } = item;
+    return appendAuditEntry(rest, { atMs: nowMs, action: 'undo_delete' });
+  });
+}
+
+export type StorageMigrationReport = {
+  migratedFiles: string[];
+  quarantinedRecords: number;
+};
+
+// Brings a stored file to the current schema at startup. Records that fail validation, and files
+// that cannot be parsed at all, are moved to the quarantine file instead of being dropped.
+async function migrateFile(
+  schema: StorageSchema,
+  fileUri: string,
+  partition: (data: unknown) => { data: unknown; invalid: InvalidRecord[] },
+  report: StorageMigrationReport
+): Promise<void> {
+  const info = await FileSystem.getInfoAsync(fileUri);
+  if (!info.exists) return;
+  const raw = await FileSystem.readAsStringAsync(fileUri);
+
+  let stored: StoredFile | null;
+  let rewrite = false;
+  try {
+    stored = parseStoredFile(raw);
+  } catch {
+    await quarantineRecords(schema.name, null, [{ reasons: ['JSONとして読み取れません'], record: raw }]);
+    report.quarantinedRecords += 1;
+    // Continue from the last good copy, if there is one.
+    const backup = await readStoredFile(schema, backupPath(fileUri));
+    if (backup.status === 'unsupported') {
+      unsupportedFiles.add(fileUri);
+      return;
+    }
+    stored = backup.status === 'ok' ? backup.file : null;
+    rewrite = true;
+  }
+
+  if (!stored) {
+    await deleteFileWithBackup(fileUri);
+    report.migratedFiles.push(schema.name);
+    return;
+  }
+  // A file written by a newer app version is left untouched.
+  if (stored.schemaVersion > schema.currentVersion) {
+    unsupportedFiles.add(fileUri);
+    return;
+  }
+
+  const { data, invalid } = partition(migrateStoredFile(schema, stored).data);
+  if (!rewrite && invalid.length === 0 && stored.schemaVersion === schema.currentVersion) return;
+
+  await quarantineRecords(schema.name, stored.schemaVersion, invalid);
+  report.quarantinedRecords += invalid.length;
+  if (data === null) {
+    await deleteFileWithBackup(fileUri);
+  } else {
+    await writeStoredFile(schema, fileUri, data);
+  }
+  report.migratedFiles.push(schema.name);
+}
+
+function partitionHistoryFile(data: unknown): { data: unknown; invalid: InvalidRecord[] } {
+  const { items, invalid } = partitionHistory(data);
+  return { data: items, invalid };
+}
+
+// Moves rides from the pre-chunking single file into month chunks. Chunks are written before the
+// old file is deleted, and rides merge by id, so an interrupted split is simply redone.
+async function splitLegacyHistory(report: StorageMigrationReport): Promise<void> {
+  const info = await FileSystem.getInfoAsync(LEGACY_HISTORY_FILE);
+  if (!info.exists) return;
+  const legacy = await readStoredFile(HISTORY_SCHEMA, LEGACY_HISTORY_FILE);
+  if (legacy.status !== 'ok') return;
+
+  await mergeDriveHistoryItems(partitionHistory(legacy.file.data).items);
+  await deleteVersionedFile(LEGACY_HISTORY_FILE);
+  report.migratedFiles.push(HISTORY_SCHEMA.name);
+}
+
+async function migrateHistoryChunks(report: StorageMigrationReport): Promise<void> {
+  const { months, appended } = await listHistoryFiles();
+  let index = (await readStoredHistoryIndex()) ?? (await rebuildHistoryIndex(months));
+  const indexed = new Set(index.map((chunk) => chunk.month));
+  if (months.length !== indexed.size || months.some((month) => !indexed.has(month))) {
+    index = await rebuildHistoryIndex(months);
+  }
+
+  // The index records each chunk's schema version, so up-to-date chunks are not read at startup.
+  const stale = index.filter((chunk) => chunk.schemaVersion < HISTORY_SCHEMA.currentVersion);
+  for (const chunk of stale) {
+    await migrateFile(HISTORY_SCHEMA, chunkFileUri(chunk.month), partitionHistoryFile, report);
+  }
+  if (stale.length > 0) await rebuildHistoryIndex(months);
+
+  // Each month with appended rides is rewritten once. A month that cannot be written keeps its
+  // appended files, which still load on their own.
+  for (const month of new Set(appended.map((ride) => ride.month))) {
+    try {
+      const { items, appendedUris } = await readHistoryMonth(month, appended);
+      await writeHistoryChunk(month, items, appendedUris);
+    } catch {
+      // Retried at the next startup.
+    }
+  }
+}
+
+export async function migrateStoredData(): Promise<StorageMigrationReport> {
+  const report: StorageMigrationReport = { migratedFiles: [], quarantinedRecords: 0 };
   try {
-    const info = await FileSystem.getInfoAsync(SESSION_SNAPSHOT_FILE);
-    if (!info.exists) return null;
-    const raw = await FileSystem.readAsStringAsync(SESSION_SNAPSHOT_FILE);
-    const parsed = JSON.parse(raw) as SessionSnapshot;
-    if (!parsed || typeof parsed !== 'object') return null;
-    return parsed;
+    await migrateFile(HISTORY_SCHEMA, LEGACY_HISTORY_FILE, partitionHistoryFile, report);
+    await splitLegacyHistory(report);
+    await migrateHistoryChunks(report);
+    await migrateFile(
+      SNAPSHOT_SCHEMA,
+      SESSION_SNAPSHOT_FILE,
+      (data) => {
+        const reasons = validateSessionSnapshot(data);
+        return reasons.length === 0
+          ? { data, invalid: [] }
+          : { data: null, invalid: [{ reasons, record: data }] };
+      },
+      report
+    );
   } catch {
-    return null;
+    // Loading still validates record by record, so a failed migration only delays the rewrite.
   }
+  return report;
+}
+
+export async function exportDriveHistoryJson(items: DriveHistoryItem[]): Promise<string> {
+  const exportPath = documentPath(`drive-history-export-${Date.now()}.json`);
+  await FileSystem.writeAsStringAsync(exportPath, JSON.stringify(items, null, 2));
+  return exportPath;
+}
+
+export async function exportDriveHistoryCsv(
+  items: DriveHistoryItem[],
+  options: { columns: CsvColumnId[]; rowMode: CsvRowMode; presets: FarePreset[] }
+): Promise<string> {
+  const exportPath = documentPath(`drive-history-export-${Date.now()}.csv`);
+  await FileSystem.writeAsStringAsync(exportPath, buildHistoryCsv(items, options));
+  return exportPath;
+}
+
+export async function exportDriveHistoryGpx(items: DriveHistoryItem[]): Promise<string> {
+  const exportPath = documentPath(`drive-history-export-${Date.now()}.gpx`);
+  await FileSystem.writeAsStringAsync(exportPath, buildGpx(items));
+  return exportPath;
+}
+
+export async function exportDriveHistoryGeoJson(items: DriveHistoryItem[]): Promise<string> {
+  const exportPath = documentPath(`drive-history-export-${Date.now()}.geojson`);
+  await FileSystem.writeAsStringAsync(exportPath, buildGeoJson(items));
+  return exportPath;
+}
+
+export async function loadSessionSnapshot(): Promise<SessionSnapshot | null> {
+  const read = await readStoredFile(SNAPSHOT_SCHEMA, SESSION_SNAPSHOT_FILE);
+  if (read.status !== 'ok' || validateSessionSnapshot(read.file.data).length > 0) return null;
+  return read.file.data as SessionSnapshot;
 }
 
+// Throws instead of replacing a snapshot left by a newer app version.
 export async function saveSessionSnapshot(snapshot: SessionSnapshot): Promise<void> {
-  await FileSystem.writeAsStringAsync(SESSION_SNAPSHOT_FILE, JSON.stringify(snapshot));
+  await writeVersionedFile(SNAPSHOT_SCHEMA, SESSION_SNAPSHOT_FILE, snapshot);
 }
 
+// A snapshot from a newer app version is left for that version to restore.
 export async function clearSessionSnapshot(): Promise<void> {
-  await FileSystem.writeAsStringAsync(SESSION_SNAPSHOT_FILE, '');
+  if (unsupportedFiles.has(SESSION_SNAPSHOT_FILE)) return;
+  await deleteFileWithBackup(SESSION_SNAPSHOT_FILE);
 }
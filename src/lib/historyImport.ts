@@ -0,0 +1,384 @@
+import { isBackupFileName } from './backup';
+import {
+  CSV_COLUMNS,
+  CSV_EVENT_HEADERS,
+  CsvColumnId,
+  parseCsv,
+  RIDE_SOURCE_LABELS,
+  SESSION_EVENT_LABELS,
+  unescapeFormulaPrefix,
+} from './csvExport';
+import { createExtraCharge } from './extraCharges';
+import { FARE_MODEL_LABELS, FARE_PRESETS, FareModel, FarePreset } from './fare';
+import { documentPath, FileSystem } from './fileSystem';
+import {
+  buildRideId,
+  DriveHistoryItem,
+  HISTORY_SCHEMA,
+  isSimulatedRide,
+  loadDriveHistory,
+  mergeDriveHistoryItems,
+  PauseLog,
+  RideSource,
+  SessionEvent,
+  validateDriveHistoryItem,
+} from './history';
+import { findLargestReceiptNumber, raiseReceiptCounter } from './receipt';
+import { migrateStoredFile, parseStoredFile } from './storage';
+
+// Imports rides from files written by the JSON or CSV export. Planning is read-only, so the user
+// sees what would be added, skipped or in conflict before anything is written.
+
+// The app's own storage files and backup bundles also end in .json and are never offered for
+// import.
+const INTERNAL_FILE_PATTERN = /^drive-history-(\d{4}-\d{2}|index)\.json$|-v\d+\.json$/;
+
+export type HistoryImportFormat = 'json' | 'csv';
+
+export type HistoryImportConflict = {
+  id: string;
+  // Fields (JSON keys or CSV column labels) whose values differ from the stored ride.
+  fields: string[];
+};
+
+export type HistoryImportInvalid = {
+  // 1-based record number (JSON) or line number (CSV).
+  position: number;
+  reasons: string[];
+};
+
+export type HistoryImportPlan = {
+  fileName: string;
+  format: HistoryImportFormat;
+  recordCount: number;
+  toAdd: DriveHistoryItem[];
+  duplicateCount: number;
+  conflicts: HistoryImportConflict[];
+  invalid: HistoryImportInvalid[];
+};
+
+type ImportSource = {
+  records: { position: number; record: unknown }[];
+  invalid: HistoryImportInvalid[];
+  compare: (stored: DriveHistoryItem, incoming: DriveHistoryItem) => string[];
+  // How far rebuilt start/finish times may be from the stored ones (local times have no ms).
+  timeToleranceMs: number;
+};
+
+// Local date-time columns are written to the second.
+const LOCAL_TIME_TOLERANCE_MS = 1000;
+
+export function detectHistoryImportFormat(fileName: string): HistoryImportFormat | null {
+  const lower = fileName.toLowerCase();
+  if (INTERNAL_FILE_PATTERN.test(lower) || isBackupFileName(lower)) return null;
+  if (lower.endsWith('.json')) return 'json';
+  if (lower.endsWith('.csv')) return 'csv';
+  return null;
+}
+
+export async function listImportableHistoryFiles(): Promise<string[]> {
+  try {
+    const names = await FileSystem.readDirectoryAsync(documentPath(''));
+    return names.filter((name) => detectHistoryImportFormat(name) !== null).sort().reverse();
+  } catch {
+    return [];
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function diffJsonRides(stored: DriveHistoryItem, incoming: DriveHistoryItem): string[] {
+  const keys = new Set([...Object.keys(stored), ...Object.keys(incoming)]);
+  return [...keys]
+    .filter((key) => {
+      const a = (stored as Record<string, unknown>)[key];
+      const b = (incoming as Record<string, unknown>)[key];
+      return stableStringify(a) !== stableStringify(b);
+    })
+    .sort();
+}
+
+// Accepts the exported array as well as a versioned { schemaVersion, data } file.
+function readJsonSource(raw: string): ImportSource {
+  const file = migrateStoredFile(HISTORY_SCHEMA, parseStoredFile(raw));
+  if (!Array.isArray(file.data)) {
+    throw new Error('履歴の配列が見つかりません');
+  }
+  return {
+    records: file.data.map((record, index) => ({ position: index + 1, record })),
+    invalid: [],
+    compare: diffJsonRides,
+    timeToleranceMs: 0,
+  };
+}
+
+function parseLocalDateTime(text: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})$/.exec(text.trim());
+  if (!match) return Number.NaN;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number) as [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+  ];
+  return new Date(year, month - 1, day, hour, minute, second).getTime();
+}
+
+function findKeyByLabel<K extends string>(labels: Record<K, string>, label: string): K | undefined {
+  return (Object.keys(labels) as K[]).find((key) => labels[key] === label);
+}
+
+type CsvRide = {
+  position: number;
+  cells: Partial<Record<CsvColumnId, string>>;
+  eventRows: { position: number; cells: string[] }[];
+};
+
+function toOptionalNumber(text: string | undefined): number | undefined {
+  if (text === undefined || text.trim() === '') return undefined;
+  return Number(text);
+}
+
+function readCsvTime(
+  cells: Partial<Record<CsvColumnId, string>>,
+  isoColumn: CsvColumnId,
+  localColumn: CsvColumnId,
+  idPart: 0 | 1
+): number {
+  // Both ISO times and the id carry milliseconds; local times only seconds.
+  const iso = cells[isoColumn];
+  if (iso) return Date.parse(iso);
+  const fromId = cells.id?.split('-')[idPart];
+  if (fromId) return Number(fromId);
+  const local = cells[localColumn];
+  return local ? parseLocalDateTime(local) : Number.NaN;
+}
+
+// Live rides are recorded at their finish. Played-back rides carry the record time as the last
+// part of the id, which the id check needs back.
+function readCsvCreatedAt(
+  cells: Partial<Record<CsvColumnId, string>>,
+  source: RideSource | undefined,
+  finishedAtMs: number
+): number {
+  if (!isSimulatedRide({ source })) return finishedAtMs;
+  const fromId = Number(cells.id?.split('-')[3]);
+  return Number.isFinite(fromId) ? fromId : finishedAtMs;
+}
+
+// Rebuilds what the CSV carries; fields it cannot carry (track, samples, coordinates) are left
+// empty. Event rows are folded back into events and pause logs.
+function buildRideFromCsv(ride: CsvRide, presets: FarePreset[]): { record: unknown; reasons: string[] } {
+  const { cells } = ride;
+  const reasons: string[] = [];
+  const startedAtMs = readCsvTime(cells, 'startedAtIso', 'startedAtLocal', 0);
+  const finishedAtMs = readCsvTime(cells, 'finishedAtIso', 'finishedAtLocal', 1);
+  const presetLabel = cells.preset ?? '';
+  const preset = presets.find((candidate) => candidate.label === presetLabel);
+  if (!preset) reasons.push(`プリセット「${presetLabel}」が見つかりません`);
+
+  const events: SessionEvent[] = [];
+  ride.eventRows.forEach(({ position, cells: eventCells }) => {
+    const [label = '', iso = '', local = ''] = eventCells;
+    const type = findKeyByLabel(SESSION_EVENT_LABELS, label);
+    const atMs = iso ? Date.parse(iso) : parseLocalDateTime(local);
+    if (!type || !Number.isFinite(atMs)) {
+      reasons.push(`${position}行目: イベント「${label}」を読み取れません`);
+      return;
+    }
+    events.push({ atMs, type });
+  });
+  const pauseLogs: PauseLog[] = [];
+  events.forEach((event, index) => {
+    const next = events[index + 1];
+    if (event.type === 'pause' && next?.type === 'resume') {
+      pauseLogs.push({ pausedAtMs: event.atMs, resumedAtMs: next.atMs, durationMs: next.atMs - event.atMs });
+    }
+  });
+
+  const pausedMs = pauseLogs.reduce((sum, log) => sum + log.durationMs, 0);
+  const elapsedMinutes = toOptionalNumber(cells.elapsedMinutes);
+  const passengerCount = toOptionalNumber(cells.passengerCount);
+  // Only the sum is exported, so extras come back as a single その他 charge.
+  const extraChargesYen = toOptionalNumber(cells.extraChargesYen);
+  // Likewise discounts come back as one fixed amount, named after the exported rule labels.
+  const discountYen = toOptionalNumber(cells.discountYen);
+  const tags = (cells.tags ?? '').split(' ').filter((tag) => tag.length > 0);
+  const fareModel = cells.fareModel ? findKeyByLabel<FareModel>(FARE_MODEL_LABELS, cells.fareModel) : undefined;
+  const source = cells.source ? findKeyByLabel<RideSource>(RIDE_SOURCE_LABELS, cells.source) : undefined;
+
+  const createdAtMs = readCsvCreatedAt(cells, source, finishedAtMs);
+
+  const record: DriveHistoryItem = {
+    id: cells.id ?? buildRideId({ startedAtMs, finishedAtMs, createdAtMs, source }),
+    createdAtMs,
+    startedAtMs,
+    finishedAtMs,
+    elapsedMs:
+      elapsedMinutes === undefined ? finishedAtMs - startedAtMs - pausedMs : Math.round(elapsedMinutes * 60000),
+    distanceKm: toOptionalNumber(cells.distanceKm) ?? Number.NaN,
+    fareYen: toOptionalNumber(cells.fareYen) ?? Number.NaN,
+    presetId: preset?.id ?? '',
+    ...(fareModel ? { fareModel } : {}),
+    ...(source ? { source } : {}),
+    from: null,
+    to: null,
+    acceptedSamples: 0,
+    filteredSamples: 0,
+    distanceChargeSteps: toOptionalNumber(cells.distanceChargeSteps) ?? 0,
+    timeChargeSteps: toOptionalNumber(cells.timeChargeSteps) ?? 0,
+    ...(cells.surchargeChargeSteps ? { surchargeChargeSteps: Number(cells.surchargeChargeSteps) } : {}),
+    ...(cells.notes ? { notes: cells.notes } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(passengerCount !== undefined ? { passengerCount } : {}),
+    ...(discountYen
+      ? {
+          discounts: [
+            { ruleId: 'csv-import', label: cells.discounts || '割引', kind: 'coupon', detail: 'CSVから復元', discountYen },
+          ],
+        }
+      : {}),
+    ...(extraChargesYen ? { extraCharges: [createExtraCharge('other', extraChargesYen, finishedAtMs)] } : {}),
+    pauseLogs,
+    events,
+  };
+  return { record, reasons };
+}
+
+// Header labels map back to export columns. Rows of an event-style export that share a ride are
+// grouped, so both row modes import.
+function readCsvSource(raw: string, presets: FarePreset[]): ImportSource {
+  const [header, ...rows] = parseCsv(raw);
+  if (!header) throw new Error('CSVが空です');
+
+  const columnAt = header.map((label) => CSV_COLUMNS.find((column) => column.label === label)?.id);
+  const eventStart = header.indexOf(CSV_EVENT_HEADERS[0]!);
+  const present = new Set(columnAt.filter((id): id is CsvColumnId => id !== undefined));
+  const hasStart = present.has('id') || present.has('startedAtIso') || present.has('startedAtLocal');
+  const hasFinish = present.has('id') || present.has('finishedAtIso') || present.has('finishedAtLocal');
+  if (!hasStart || !hasFinish || !present.has('distanceKm') || !present.has('fareYen') || !present.has('preset')) {
+    throw new Error('CSVに必要な列（ID または開始・終了時刻、距離、運賃、プリセット）がありません');
+  }
+
+  const rides = new Map<string, CsvRide>();
+  rows.forEach((row, index) => {
+    const cells: Partial<Record<CsvColumnId, string>> = {};
+    columnAt.forEach((id, column) => {
+      if (id) cells[id] = unescapeFormulaPrefix(row[column] ?? '');
+    });
+    const key = [cells.id, cells.startedAtIso, cells.startedAtLocal, cells.finishedAtIso, cells.finishedAtLocal].join('|');
+    // Line 1 is the header.
+    const position = index + 2;
+    const ride = rides.get(key) ?? { position, cells, eventRows: [] };
+    if (eventStart >= 0) {
+      ride.eventRows.push({ position, cells: row.slice(eventStart, eventStart + CSV_EVENT_HEADERS.length) });
+    }
+    rides.set(key, ride);
+  });
+
+  const records: ImportSource['records'] = [];
+  const invalid: HistoryImportInvalid[] = [];
+  rides.forEach((ride) => {
+    const { record, reasons } = buildRideFromCsv(ride, presets);
+    if (reasons.length > 0) {
+      invalid.push({ position: ride.position, reasons });
+    } else {
+      records.push({ position: ride.position, record });
+    }
+  });
+
+  // Only what the CSV carries can be compared, in the form the export wrote it.
+  const compared = CSV_COLUMNS.filter((column) => present.has(column.id));
+  const exactTimes = present.has('id') || (present.has('startedAtIso') && present.has('finishedAtIso'));
+  return {
+    records,
+    invalid,
+    timeToleranceMs: exactTimes ? 0 : LOCAL_TIME_TOLERANCE_MS,
+    compare: (stored, incoming) =>
+      compared
+        .filter((column) => column.value(stored, presets) !== column.value(incoming, presets))
+        .map((column) => column.label),
+  };
+}
+
+// Classifies every record without writing: new rides, exact duplicates, conflicts (same id,
+// different content) and records that fail validation. Deleted rides count as stored.
+export async function planHistoryImport(
+  fileName: string,
+  customPresets: FarePreset[]
+): Promise<HistoryImportPlan> {
+  const format = detectHistoryImportFormat(fileName);
+  if (!format) throw new Error('JSON または CSV ファイルを選んでください');
+
+  const raw = await FileSystem.readAsStringAsync(documentPath(fileName));
+  const source = format === 'json' ? readJsonSource(raw) : readCsvSource(raw, [...FARE_PRESETS, ...customPresets]);
+  const storedItems = await loadDriveHistory({ includeDeleted: true });
+  const stored = new Map(storedItems.map((item) => [item.id, item] as const));
+  const findStored = (item: DriveHistoryItem): DriveHistoryItem | undefined =>
+    stored.get(item.id) ??
+    (source.timeToleranceMs > 0
+      ? storedItems.find(
+          (candidate) =>
+            Math.abs(candidate.startedAtMs - item.startedAtMs) < source.timeToleranceMs &&
+            Math.abs(candidate.finishedAtMs - item.finishedAtMs) < source.timeToleranceMs
+        )
+      : undefined);
+
+  const plan: HistoryImportPlan = {
+    fileName,
+    format,
+    recordCount: source.records.length + source.invalid.length,
+    toAdd: [],
+    duplicateCount: 0,
+    conflicts: [],
+    invalid: [...source.invalid],
+  };
+  source.records.forEach(({ position, record }) => {
+    const reasons = validateDriveHistoryItem(record);
+    let item = record as DriveHistoryItem;
+    if (reasons.length === 0 && item.id !== buildRideId(item)) {
+      reasons.push(`id: 開始・終了時刻など（${buildRideId(item)}）と一致しません`);
+    }
+    if (reasons.length > 0) {
+      plan.invalid.push({ position, reasons });
+      return;
+    }
+
+    const existing = findStored(item);
+    if (existing && existing.id !== item.id) {
+      // Matched within the tolerance: compare against the stored ride under its own id and times.
+      item = { ...item, id: existing.id, startedAtMs: existing.startedAtMs, finishedAtMs: existing.finishedAtMs };
+    }
+    if (!existing) {
+      plan.toAdd.push(item);
+      stored.set(item.id, item);
+      return;
+    }
+    const fields = source.compare(existing, item);
+    if (fields.length === 0) {
+      plan.duplicateCount += 1;
+    } else {
+      plan.conflicts.push({ id: item.id, fields });
+    }
+  });
+  return plan;
+}
+
+// Writes only the rides the plan marked as new. Conflicting rides keep their stored version.
+export async function applyHistoryImport(plan: HistoryImportPlan): Promise<number> {
+  await mergeDriveHistoryItems(plan.toAdd);
+  // Receipt numbers on imported rides are never issued again.
+  await raiseReceiptCounter(findLargestReceiptNumber(plan.toAdd));
+  return plan.toAdd.length;
+}
@@ -0,0 +1,155 @@
+import { DriveHistoryItem, isSimulatedRide, loadDriveHistory } from './history';
+
+// Filters and sorting over ride history, shared by the history card and the exports.
+
+export type HistorySortKey = 'date' | 'fare' | 'distance' | 'duration';
+export type SortDirection = 'asc' | 'desc';
+export type RideKindFilter = 'all' | 'real' | 'simulated';
+
+export const HISTORY_SORT_LABELS: Record<HistorySortKey, string> = {
+  date: '日時',
+  fare: '運賃',
+  distance: '距離',
+  duration: '所要時間',
+};
+
+export const RIDE_KIND_LABELS: Record<RideKindFilter, string> = {
+  all: 'すべて',
+  real: '実走行',
+  simulated: 'シミュレーション',
+};
+
+export type HistoryQuery = {
+  // Range of startedAtMs: fromMs inclusive, toMs exclusive.
+  fromMs: number | null;
+  toMs: number | null;
+  // Empty matches every preset.
+  presetIds: string[];
+  minFareYen: number | null;
+  maxFareYen: number | null;
+  minDistanceKm: number | null;
+  maxDistanceKm: number | null;
+  rideKind: RideKindFilter;
+  // Whitespace-separated terms, all of which must appear in the ride's notes or tags.
+  text: string;
+  sortKey: HistorySortKey;
+  sortDirection: SortDirection;
+};
+
+export const DEFAULT_HISTORY_QUERY: HistoryQuery = {
+  fromMs: null,
+  toMs: null,
+  presetIds: [],
+  minFareYen: null,
+  maxFareYen: null,
+  minDistanceKm: null,
+  maxDistanceKm: null,
+  rideKind: 'all',
+  text: '',
+  sortKey: 'date',
+  sortDirection: 'desc',
+};
+
+// The default query lists rides in storage order, which the paged loader already provides.
+export function isDefaultHistoryQuery(query: HistoryQuery): boolean {
+  return (
+    query.fromMs === null &&
+    query.toMs === null &&
+    query.presetIds.length === 0 &&
+    query.minFareYen === null &&
+    query.maxFareYen === null &&
+    query.minDistanceKm === null &&
+    query.maxDistanceKm === null &&
+    query.rideKind === 'all' &&
+    query.text.trim() === '' &&
+    query.sortKey === 'date' &&
+    query.sortDirection === 'desc'
+  );
+}
+
+// Parses 'YYYY-MM-DD' (or 'YYYY/MM/DD') as local midnight. Empty input means no bound.
+export function parseDateInput(text: string): number | null | undefined {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+  const match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(trimmed);
+  if (!match) return undefined;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return undefined;
+  }
+  return date.getTime();
+}
+
+// Empty input means no bound; undefined marks input that is not a number.
+export function parseNumberInput(text: string): number | null | undefined {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+export function formatDateInput(atMs: number | null): string {
+  if (atMs === null) return '';
+  const date = new Date(atMs);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function getSearchableText(item: DriveHistoryItem): string {
+  return [item.notes ?? '', ...(item.tags ?? [])].join('\n').toLowerCase();
+}
+
+function inRange(value: number, min: number | null, max: number | null): boolean {
+  return (min === null || value >= min) && (max === null || value <= max);
+}
+
+export function matchesHistoryQuery(item: DriveHistoryItem, query: HistoryQuery): boolean {
+  if (query.fromMs !== null && item.startedAtMs < query.fromMs) return false;
+  if (query.toMs !== null && item.startedAtMs >= query.toMs) return false;
+  if (query.presetIds.length > 0 && !query.presetIds.includes(item.presetId)) return false;
+  if (!inRange(item.fareYen, query.minFareYen, query.maxFareYen)) return false;
+  if (!inRange(item.distanceKm, query.minDistanceKm, query.maxDistanceKm)) return false;
+
+  if (query.rideKind === 'real' && isSimulatedRide(item)) return false;
+  if (query.rideKind === 'simulated' && !isSimulatedRide(item)) return false;
+
+  const terms = query.text.toLowerCase().split(/\s+/).filter((term) => term.length > 0);
+  if (terms.length > 0) {
+    const searchable = getSearchableText(item);
+    if (!terms.every((term) => searchable.includes(term))) return false;
+  }
+  return true;
+}
+
+function getSortValue(item: DriveHistoryItem, key: HistorySortKey): number {
+  switch (key) {
+    case 'fare':
+      return item.fareYen;
+    case 'distance':
+      return item.distanceKm;
+    case 'duration':
+      return item.elapsedMs;
+    default:
+      return item.startedAtMs;
+  }
+}
+
+// Ties fall back to the newest ride first.
+export function queryDriveHistory(items: DriveHistoryItem[], query: HistoryQuery): DriveHistoryItem[] {
+  const sign = query.sortDirection === 'asc' ? 1 : -1;
+  return items
+    .filter((item) => matchesHistoryQuery(item, query))
+    .sort(
+      (a, b) =>
+        sign * (getSortValue(a, query.sortKey) - getSortValue(b, query.sortKey)) ||
+        b.startedAtMs - a.startedAtMs
+    );
+}
+
+// Only the month chunks that overlap the date range are read.
+export async function searchDriveHistory(query: HistoryQuery): Promise<DriveHistoryItem[]> {
+  const items = await loadDriveHistory({ fromMs: query.fromMs, toMs: query.toMs });
+  return queryDriveHistory(items, query);
+}
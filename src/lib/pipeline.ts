@@ -0,0 +1,330 @@
+import { createFareRuntime, FarePreset, FareRuntime, updateFareBySegment } from './fare';
+import { DistanceMethod, horizontalDistanceKm, slopeDistanceKm } from './geo';
+import {
+  createGpsFilterState,
+  GpsFilterKind,
+  GpsFilterState,
+  getStepRejectionReason,
+  smoothSample,
+} from './gpsFilter';
+import { appendTrackPoint, TrackPoint } from './track';
+import { LatLng } from './types';
+
+// The per-sample meter pipeline. The live location watcher and offline replay both go through
+// processLocationSample so they produce identical results for the same samples.
+
+export type BillingMode = 'distance' | 'time' | 'unknown';
+export type LocationProfile = 'high' | 'balanced';
+
+const PROFILE_SWITCH_TO_BALANCED_KMH = 12;
+const PROFILE_SWITCH_TO_HIGH_KMH = 20;
+const ALTITUDE_DEFAULT_ACCURACY_METERS = 10;
+const ALTITUDE_MAX_ACCURACY_METERS = 30;
+const MAX_ROAD_GRADE = 0.2;
+
+export type LocationSample = {
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  speedMps: number | null;
+  accuracyMeters: number | null;
+  altitudeMeters?: number | null;
+  altitudeAccuracyMeters?: number | null;
+};
+
+// Last good position before a run of filtered samples, kept until the signal comes back.
+export type GapAnchor = {
+  point: LatLng;
+  atMs: number;
+  speedKmh: number;
+};
+
+export type MeterPipelineState = {
+  lastPoint: LatLng | null;
+  lastSampleTimeMs: number | null;
+  fareRuntime: FareRuntime;
+  distanceKm: number;
+  acceptedSamples: number;
+  filteredSamples: number;
+  firstAcceptedPoint: LatLng | null;
+  lastAcceptedPoint: LatLng | null;
+  track: TrackPoint[];
+  gpsFilter: GpsFilterState;
+  distanceMethod: DistanceMethod;
+  // Last altitude that was counted towards 3D distance, and the horizontal distance since then.
+  altitudeReferenceMeters: number | null;
+  altitudeRunKm: number;
+  lastAcceptedSpeedKmh: number;
+  gapAnchor: GapAnchor | null;
+  // Estimated across filtered gaps. Billed, but kept out of distanceKm (the measured distance).
+  bridgedDistanceKm: number;
+};
+
+// The session event for a sample that moved the meter into or out of a surcharge window.
+export type SurchargeTransition = 'surcharge_start' | 'surcharge_end';
+
+export type SampleOutcome =
+  | { kind: 'first' }
+  | {
+      kind: 'filtered';
+      reason: string;
+      deltaKm: number;
+      deltaSeconds: number;
+      speedKmh: number;
+      accuracyMeters: number | null;
+    }
+  | {
+      kind: 'accepted';
+      deltaKm: number;
+      deltaSeconds: number;
+      speedKmh: number;
+      billingMode: 'distance' | 'time';
+      bridgedKm: number;
+      surchargeTransition: SurchargeTransition | null;
+    };
+
+export function createPipelineState(
+  preset: FarePreset,
+  options: { gpsFilter?: GpsFilterKind; distanceMethod?: DistanceMethod } = {}
+): MeterPipelineState {
+  return {
+    lastPoint: null,
+    lastSampleTimeMs: null,
+    fareRuntime: createFareRuntime(preset),
+    distanceKm: 0,
+    acceptedSamples: 0,
+    filteredSamples: 0,
+    firstAcceptedPoint: null,
+    lastAcceptedPoint: null,
+    track: [],
+    gpsFilter: createGpsFilterState(options.gpsFilter ?? 'threshold'),
+    distanceMethod: options.distanceMethod ?? 'spherical',
+    altitudeReferenceMeters: null,
+    altitudeRunKm: 0,
+    lastAcceptedSpeedKmh: 0,
+    gapAnchor: null,
+    bridgedDistanceKm: 0,
+  };
+}
+
+// Forget the previous sample so the next one starts a new segment (after a pause or restore).
+// Smoothing history is dropped too; it would otherwise pull the new segment towards the old one.
+// Nothing is bridged across a pause, since the meter is not supposed to charge for it.
+export function resetSampleCursor(state: MeterPipelineState): MeterPipelineState {
+  return {
+    ...state,
+    lastPoint: null,
+    lastSampleTimeMs: null,
+    gpsFilter: createGpsFilterState(state.gpsFilter.kind),
+    altitudeReferenceMeters: null,
+    altitudeRunKm: 0,
+    gapAnchor: null,
+  };
+}
+
+export function toLocationSample(loc: {
+  timestamp: number;
+  coords: {
+    latitude: number;
+    longitude: number;
+    speed?: number | null;
+    accuracy?: number | null;
+    altitude?: number | null;
+    altitudeAccuracy?: number | null;
+  };
+}): LocationSample {
+  return {
+    timestamp: loc.timestamp,
+    latitude: loc.coords.latitude,
+    longitude: loc.coords.longitude,
+    speedMps: loc.coords.speed ?? null,
+    accuracyMeters: loc.coords.accuracy ?? null,
+    altitudeMeters: loc.coords.altitude ?? null,
+    altitudeAccuracyMeters: loc.coords.altitudeAccuracy ?? null,
+  };
+}
+
+// Altitude only counts once it has moved further from the last counted altitude than its own
+// accuracy, at a grade a road could have over the run since then. Per-sample vertical noise
+// therefore does not add up into distance.
+function getAltitudeStep(
+  reference: number | null,
+  sample: LocationSample,
+  runKm: number
+): { climbMeters: number; reference: number | null } {
+  const altitude = sample.altitudeMeters;
+  const accuracy = sample.altitudeAccuracyMeters ?? ALTITUDE_DEFAULT_ACCURACY_METERS;
+  if (altitude === null || altitude === undefined || accuracy > ALTITUDE_MAX_ACCURACY_METERS) {
+    return { climbMeters: 0, reference };
+  }
+  if (reference === null) return { climbMeters: 0, reference: altitude };
+
+  const climbMeters = altitude - reference;
+  if (Math.abs(climbMeters) < accuracy || Math.abs(climbMeters) > runKm * 1000 * MAX_ROAD_GRADE) {
+    return { climbMeters: 0, reference };
+  }
+  return { climbMeters, reference: altitude };
+}
+
+export function getDesiredLocationProfile(
+  speedKmh: number,
+  current: LocationProfile
+): LocationProfile {
+  if (speedKmh <= PROFILE_SWITCH_TO_BALANCED_KMH) return 'balanced';
+  if (speedKmh >= PROFILE_SWITCH_TO_HIGH_KMH) return 'high';
+  return current;
+}
+
+// Estimates the distance missed between the gap anchor and the point where the signal came back:
+// the straight line, capped by how far the car could have gone at the faster of the speeds seen
+// just before and just after the gap.
+export function estimateGapBridge(
+  anchor: GapAnchor,
+  resumedAt: LatLng,
+  resumedAtMs: number,
+  resumedSpeedKmh: number,
+  method: DistanceMethod = 'spherical'
+): { distanceKm: number; seconds: number; speedKmh: number } {
+  const seconds = Math.max(0, (resumedAtMs - anchor.atMs) / 1000);
+  const reachableKm = (Math.max(anchor.speedKmh, resumedSpeedKmh) * seconds) / 3600;
+  const distanceKm = Math.min(horizontalDistanceKm(anchor.point, resumedAt, method), reachableKm);
+  return {
+    distanceKm,
+    seconds,
+    speedKmh: seconds > 0 ? (distanceKm / seconds) * 3600 : 0,
+  };
+}
+
+export function processLocationSample(
+  state: MeterPipelineState,
+  sample: LocationSample,
+  preset: FarePreset
+): { state: MeterPipelineState; outcome: SampleOutcome } {
+  const smoothed = smoothSample(state.gpsFilter, sample);
+  const nextPoint = smoothed.point;
+  const advanced: MeterPipelineState = {
+    ...state,
+    lastPoint: nextPoint,
+    lastSampleTimeMs: sample.timestamp,
+    gpsFilter: smoothed.state,
+  };
+
+  const tracksAltitude = state.distanceMethod === 'ellipsoidal3d';
+
+  if (!state.lastPoint || !state.lastSampleTimeMs) {
+    const altitudeReferenceMeters = tracksAltitude
+      ? getAltitudeStep(state.altitudeReferenceMeters, sample, 0).reference
+      : null;
+    return {
+      state: { ...advanced, altitudeReferenceMeters },
+      outcome: { kind: 'first' },
+    };
+  }
+
+  // A counted climb is spread over the horizontal run since the previous one, not just this step.
+  const horizontalKm = horizontalDistanceKm(state.lastPoint, nextPoint, state.distanceMethod);
+  const runKm = state.altitudeRunKm + horizontalKm;
+  const altitude = tracksAltitude
+    ? getAltitudeStep(state.altitudeReferenceMeters, sample, runKm)
+    : { climbMeters: 0, reference: null };
+  const deltaKm =
+    altitude.climbMeters === 0
+      ? horizontalKm
+      : horizontalKm + slopeDistanceKm(runKm, altitude.climbMeters) - runKm;
+  const deltaSeconds = Math.max(0.1, (sample.timestamp - state.lastSampleTimeMs) / 1000);
+  const rawSpeedKmh = (sample.speedMps ?? 0) * 3.6;
+  const fallbackSpeedKmh = deltaSeconds > 0 ? (deltaKm / deltaSeconds) * 3600 : 0;
+  const speedKmh = rawSpeedKmh > 0 ? rawSpeedKmh : fallbackSpeedKmh;
+  const reason = getStepRejectionReason(state.gpsFilter.kind, {
+    deltaKm,
+    deltaSeconds,
+    speedKmh,
+    accuracyMeters: sample.accuracyMeters,
+  });
+
+  if (reason) {
+    const gapAnchor =
+      state.gapAnchor ?? {
+        point: state.lastPoint,
+        atMs: state.lastSampleTimeMs,
+        speedKmh: state.lastAcceptedSpeedKmh,
+      };
+    return {
+      state: { ...advanced, filteredSamples: state.filteredSamples + 1, gapAnchor },
+      outcome: {
+        kind: 'filtered',
+        reason,
+        deltaKm,
+        deltaSeconds,
+        speedKmh,
+        accuracyMeters: sample.accuracyMeters,
+      },
+    };
+  }
+
+  let runtime = state.fareRuntime;
+  let bridgedKm = 0;
+  if (state.gapAnchor) {
+    const bridge = estimateGapBridge(
+      state.gapAnchor,
+      state.lastPoint,
+      state.lastSampleTimeMs,
+      speedKmh,
+      state.distanceMethod
+    );
+    bridgedKm = bridge.distanceKm;
+    runtime = updateFareBySegment({
+      preset,
+      runtime,
+      deltaDistanceKm: bridge.distanceKm,
+      deltaSeconds: bridge.seconds,
+      speedKmh: bridge.speedKmh,
+      atMs: state.lastSampleTimeMs,
+    });
+  }
+
+  const fareRuntime = updateFareBySegment({
+    preset,
+    runtime,
+    deltaDistanceKm: Math.max(0, deltaKm),
+    deltaSeconds,
+    speedKmh,
+    atMs: sample.timestamp,
+  });
+
+  return {
+    state: {
+      ...advanced,
+      fareRuntime,
+      distanceKm: state.distanceKm + Math.max(0, deltaKm),
+      acceptedSamples: state.acceptedSamples + 1,
+      altitudeReferenceMeters: altitude.reference,
+      altitudeRunKm: altitude.climbMeters === 0 ? runKm : 0,
+      lastAcceptedSpeedKmh: speedKmh,
+      gapAnchor: null,
+      bridgedDistanceKm: state.bridgedDistanceKm + bridgedKm,
+      firstAcceptedPoint: state.firstAcceptedPoint ?? nextPoint,
+      lastAcceptedPoint: nextPoint,
+      track: appendTrackPoint(state.track, {
+        ...nextPoint,
+        atMs: sample.timestamp,
+        speedKmh,
+        accuracyMeters: sample.accuracyMeters,
+      }),
+    },
+    outcome: {
+      kind: 'accepted',
+      deltaKm,
+      deltaSeconds,
+      speedKmh,
+      billingMode: speedKmh <= preset.lowSpeedThresholdKmh ? 'time' : 'distance',
+      bridgedKm,
+      surchargeTransition:
+        fareRuntime.surchargeActive === state.fareRuntime.surchargeActive
+          ? null
+          : fareRuntime.surchargeActive
+            ? 'surcharge_start'
+            : 'surcharge_end',
+    },
+  };
+}
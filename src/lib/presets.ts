@@ -0,0 +1,290 @@
+import { checkDiscountRule, validateDiscountRule } from './discounts';
+import { FARE_MODEL_LABELS, FARE_PRESETS, FarePreset, SurchargeWindow } from './fare';
+import { documentPath, FileSystem } from './fileSystem';
+import {
+  checkArrayOf,
+  checkNumber,
+  checkOneOf,
+  checkOptional,
+  checkString,
+  collectErrors,
+  isRecord,
+} from './storage';
+import { REGION_ORDER, VEHICLE_CLASS_LABELS } from './tariffs';
+
+const CUSTOM_PRESETS_FILE = documentPath('fare-presets-v1.json');
+const MINUTES_PER_DAY = 24 * 60;
+const STANDARD_GROUP = '標準';
+const CUSTOM_GROUP = 'カスタム';
+
+export type CustomFarePreset = FarePreset & {
+  createdAtMs: number;
+  updatedAtMs: number;
+  // Deleted presets stay on disk so history items that reference them still resolve.
+  deletedAtMs: number | null;
+};
+
+export function isBuiltInPresetId(id: string): boolean {
+  return FARE_PRESETS.some((preset) => preset.id === id);
+}
+
+export function getSelectablePresets(customPresets: CustomFarePreset[]): FarePreset[] {
+  return [...FARE_PRESETS, ...customPresets.filter((preset) => preset.deletedAtMs === null)];
+}
+
+export type PresetGroup = {
+  title: string;
+  presets: FarePreset[];
+};
+
+export function getPresetGroupTitle(preset: FarePreset): string {
+  if (!isBuiltInPresetId(preset.id)) return CUSTOM_GROUP;
+  return preset.catalog?.region ?? STANDARD_GROUP;
+}
+
+function matchesPresetQuery(preset: FarePreset, query: string): boolean {
+  const haystack = [
+    preset.label,
+    getPresetGroupTitle(preset),
+    preset.catalog?.block ?? '',
+    preset.catalog ? VEHICLE_CLASS_LABELS[preset.catalog.vehicleClass] : '',
+  ]
+    .join(' ')
+    .toLowerCase();
+  return haystack.includes(query);
+}
+
+export function groupPresets(presets: FarePreset[], query: string): PresetGroup[] {
+  const normalizedQuery = query.trim().toLowerCase();
+  const order = [STANDARD_GROUP, ...REGION_ORDER, CUSTOM_GROUP];
+  const groups = new Map<string, FarePreset[]>();
+
+  presets
+    .filter((preset) => normalizedQuery.length === 0 || matchesPresetQuery(preset, normalizedQuery))
+    .forEach((preset) => {
+      const title = getPresetGroupTitle(preset);
+      groups.set(title, [...(groups.get(title) ?? []), preset]);
+    });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => order.indexOf(a) - order.indexOf(b))
+    .map(([title, items]) => ({ title, presets: items }));
+}
+
+function validateSurchargeWindow(window: SurchargeWindow, index: number): string[] {
+  const errors: string[] = [];
+  const prefix = `割増${index + 1}`;
+  const isMinute = (value: number) =>
+    Number.isInteger(value) && value >= 0 && value < MINUTES_PER_DAY;
+
+  if (!isMinute(window.startMinuteOfDay) || !isMinute(window.endMinuteOfDay)) {
+    errors.push(`${prefix}: 時刻は 00:00〜23:59 で入力してください`);
+  } else if (window.startMinuteOfDay === window.endMinuteOfDay) {
+    errors.push(`${prefix}: 開始と終了が同じ時刻です`);
+  }
+  if (!Number.isFinite(window.rate) || window.rate <= 0) {
+    errors.push(`${prefix}: 割増率は0より大きい値にしてください`);
+  }
+  return errors;
+}
+
+function validateBands(
+  label: string,
+  bands: { from: number; step: number; fare: number }[]
+): string[] {
+  if (bands.length === 0) return [`${label}を1つ以上設定してください`];
+
+  const errors: string[] = [];
+  if (bands[0]!.from !== 0) {
+    errors.push(`${label}1の開始は0にしてください`);
+  }
+  bands.forEach((band, index) => {
+    const prefix = `${label}${index + 1}`;
+    const previous = bands[index - 1];
+    if (!Number.isFinite(band.from) || (previous && band.from <= previous.from)) {
+      errors.push(`${prefix}: 開始値は前の帯より大きくしてください`);
+    }
+    if (!Number.isFinite(band.step) || band.step <= 0) {
+      errors.push(`${prefix}: 加算単位は0より大きい数値にしてください`);
+    }
+    if (!Number.isFinite(band.fare) || band.fare < 0) {
+      errors.push(`${prefix}: 加算額は0以上の数値にしてください`);
+    }
+  });
+  return errors;
+}
+
+export function validateFarePreset(preset: FarePreset): string[] {
+  const errors: string[] = [];
+
+  if (preset.label.trim().length === 0) {
+    errors.push('プリセット名を入力してください');
+  }
+
+  const nonNegative: [number, string][] = [
+    [preset.baseFareYen, '初乗り運賃'],
+    [preset.baseDistanceKm, '初乗り距離'],
+    [preset.lowSpeedThresholdKmh, '低速判定速度'],
+  ];
+  nonNegative.forEach(([value, label]) => {
+    if (!Number.isFinite(value) || value < 0) {
+      errors.push(`${label}は0以上の数値にしてください`);
+    }
+  });
+
+  errors.push(
+    ...validateBands(
+      '距離帯',
+      preset.distanceBands.map((band) => ({
+        from: band.fromKm,
+        step: band.stepKm,
+        fare: band.stepFareYen,
+      }))
+    ),
+    ...validateBands(
+      '時間帯',
+      preset.timeBands.map((band) => ({
+        from: band.fromSeconds,
+        step: band.stepSeconds,
+        fare: band.stepFareYen,
+      }))
+    )
+  );
+
+  // Combined billing converts low-speed time into distance by fare, which needs a distance fare.
+  if (
+    preset.fareModel === 'combined' &&
+    preset.distanceBands.some((band) => band.stepFareYen <= 0) &&
+    preset.timeBands.some((band) => band.stepFareYen > 0)
+  ) {
+    errors.push('時間距離併用では距離帯の加算額を0円より大きくしてください');
+  }
+
+  preset.surchargeWindows.forEach((window, index) => {
+    errors.push(...validateSurchargeWindow(window, index));
+  });
+
+  (preset.discountRules ?? []).forEach((rule, index) => {
+    errors.push(...validateDiscountRule(rule, index));
+  });
+
+  return errors;
+}
+
+function checkDeletedAtMs(record: Record<string, unknown>, key: string): string | null {
+  return record[key] === null ? null : checkNumber(record, key);
+}
+
+// Shape checks for a stored preset (e.g. one read from a backup), followed by the editor's rules.
+export function validateCustomPreset(value: unknown): string[] {
+  if (!isRecord(value)) return ['オブジェクトではありません'];
+  const shapeErrors = collectErrors([
+    checkString(value, 'id'),
+    checkString(value, 'label'),
+    checkNumber(value, 'baseFareYen'),
+    checkNumber(value, 'baseDistanceKm'),
+    checkNumber(value, 'lowSpeedThresholdKmh'),
+    checkOneOf(value, 'fareModel', Object.keys(FARE_MODEL_LABELS)),
+    checkArrayOf(value, 'distanceBands', (band) => [
+      checkNumber(band, 'fromKm'),
+      checkNumber(band, 'stepKm'),
+      checkNumber(band, 'stepFareYen'),
+    ]),
+    checkArrayOf(value, 'timeBands', (band) => [
+      checkNumber(band, 'fromSeconds'),
+      checkNumber(band, 'stepSeconds'),
+      checkNumber(band, 'stepFareYen'),
+    ]),
+    checkArrayOf(value, 'surchargeWindows', (window) => [
+      checkString(window, 'label'),
+      checkNumber(window, 'startMinuteOfDay'),
+      checkNumber(window, 'endMinuteOfDay'),
+      checkNumber(window, 'rate'),
+    ]),
+    // Missing on presets saved before discount rules.
+    checkOptional(value, 'discountRules', (r, key) => checkArrayOf(r, key, checkDiscountRule)),
+    checkNumber(value, 'createdAtMs'),
+    checkNumber(value, 'updatedAtMs'),
+    checkDeletedAtMs(value, 'deletedAtMs'),
+  ]);
+  if (shapeErrors.length > 0) return shapeErrors;
+  return validateFarePreset(value as CustomFarePreset);
+}
+
+export function createCustomPreset(
+  source: FarePreset,
+  label: string,
+  nowMs: number
+): CustomFarePreset {
+  const { catalog: _catalog, revisions: _revisions, ...rest } = source;
+  return {
+    ...rest,
+    surchargeWindows: source.surchargeWindows.map((window) => ({ ...window })),
+    discountRules: source.discountRules?.map((rule) => ({ ...rule })),
+    id: `custom-${nowMs}`,
+    label,
+    createdAtMs: nowMs,
+    updatedAtMs: nowMs,
+    deletedAtMs: null,
+  };
+}
+
+export function upsertCustomPreset(
+  presets: CustomFarePreset[],
+  preset: CustomFarePreset
+): CustomFarePreset[] {
+  const exists = presets.some((item) => item.id === preset.id);
+  if (!exists) return [...presets, preset];
+  return presets.map((item) => (item.id === preset.id ? preset : item));
+}
+
+export function markCustomPresetDeleted(
+  presets: CustomFarePreset[],
+  id: string,
+  nowMs: number
+): CustomFarePreset[] {
+  return presets.map((item) =>
+    item.id === id ? { ...item, deletedAtMs: nowMs, updatedAtMs: nowMs } : item
+  );
+}
+
+// Presets saved before tiered bands stored a single step pair for distance and time.
+type LegacyStepFields = {
+  distanceStepKm?: number;
+  distanceStepFareYen?: number;
+  lowSpeedStepSeconds?: number;
+  lowSpeedStepFareYen?: number;
+};
+
+function upgradeLegacyStepFields(stored: CustomFarePreset & LegacyStepFields): CustomFarePreset {
+  const { distanceStepKm, distanceStepFareYen, lowSpeedStepSeconds, lowSpeedStepFareYen, ...preset } =
+    stored;
+  return {
+    ...preset,
+    distanceBands: preset.distanceBands ?? [
+      { fromKm: 0, stepKm: distanceStepKm ?? Number.NaN, stepFareYen: distanceStepFareYen ?? 0 },
+    ],
+    timeBands: preset.timeBands ?? [
+      { fromSeconds: 0, stepSeconds: lowSpeedStepSeconds ?? Number.NaN, stepFareYen: lowSpeedStepFareYen ?? 0 },
+    ],
+  };
+}
+
+export async function loadCustomPresets(): Promise<CustomFarePreset[]> {
+  try {
+    const info = await FileSystem.getInfoAsync(CUSTOM_PRESETS_FILE);
+    if (!info.exists) return [];
+
+    const raw = await FileSystem.readAsStringAsync(CUSTOM_PRESETS_FILE);
+    const parsed = JSON.parse(raw) as (CustomFarePreset & LegacyStepFields)[];
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed.map(upgradeLegacyStepFields);
+  } catch {
+    return [];
+  }
+}
+
+export async function saveCustomPresets(presets: CustomFarePreset[]): Promise<void> {
+  await FileSystem.writeAsStringAsync(CUSTOM_PRESETS_FILE, JSON.stringify(presets));
+}
@@ -0,0 +1,461 @@
+import { getDiscountedFareYen } from './discounts';
+import { EXTRA_CHARGE_LABELS, getRideTotalYen } from './extraCharges';
+import { FarePreset, getActiveSurcharge, getPresetById } from './fare';
+import { documentPath, FileSystem, writeFileAtomically } from './fileSystem';
+import { formatDuration } from './geo';
+import {
+  DriveHistoryItem,
+  loadDriveHistory,
+  loadDriveHistoryItem,
+  PauseLog,
+  recordReceiptIssued,
+} from './history';
+import { applyRevision, findRevisionAt, getPresetRevisions } from './revisions';
+import { AppSettings, loadAppSettings } from './settings';
+import { isRecord } from './storage';
+
+// Itemized receipts (領収書) for finished rides, as plain text and as a standalone HTML page.
+// Taxi fares are quoted tax-included, so the 消費税 portion is backed out of the total.
+
+// The last receipt number handed out. It has a file of its own, outside the settings and the
+// backups, so restoring a backup can never roll it back.
+const RECEIPT_COUNTER_FILE = documentPath('receipt-counter-v1.json');
+
+export const CONSUMPTION_TAX_PERCENT = 10;
+
+export type ReceiptLine = {
+  label: string;
+  // How the amount was reached, e.g. '8回 × 100円'.
+  detail: string;
+  amountYen: number;
+};
+
+export type ReceiptSurcharge = {
+  label: string;
+  fromMs: number;
+  toMs: number;
+};
+
+export type Receipt = {
+  receiptNumber: number;
+  reissue: boolean;
+  issuerName: string;
+  issuedAtMs: number;
+  presetLabel: string;
+  startedAtMs: number;
+  finishedAtMs: number;
+  distanceKm: number;
+  bridgedDistanceKm: number;
+  // Base fare and charge steps; the amounts always add up to meteredYen.
+  lines: ReceiptLine[];
+  meteredYen: number;
+  // Discounts off meteredYen in the order applied; amounts are positive.
+  discountLines: ReceiptLine[];
+  discountedYen: number;
+  // Tolls and other fees added during the ride.
+  extraLines: ReceiptLine[];
+  // Steps billed at the shortened surcharge step size. Already counted in lines.
+  surchargeSteps: number;
+  surcharges: ReceiptSurcharge[];
+  // Paused time is not billed; listed so the passenger can match the receipt to the ride.
+  pauses: PauseLog[];
+  totalYen: number;
+  taxYen: number;
+};
+
+// The tariff the ride was priced with: its preset at the revision locked in at the start.
+function resolveRideTariff(item: DriveHistoryItem, customPresets: FarePreset[]): FarePreset {
+  const preset = { ...getPresetById(item.presetId, customPresets), fareModel: item.fareModel ?? 'legacy' };
+  const revision =
+    getPresetRevisions(preset).find((candidate) => candidate.id === item.revisionId) ??
+    findRevisionAt(preset, item.startedAtMs);
+  return applyRevision(preset, revision);
+}
+
+function uniformStepFare(bands: { stepFareYen: number }[]): number | null {
+  const fares = new Set(bands.map((band) => band.stepFareYen));
+  return fares.size === 1 ? (bands[0]?.stepFareYen ?? null) : null;
+}
+
+function buildFareLines(item: DriveHistoryItem, tariff: FarePreset): ReceiptLine[] {
+  const lines: ReceiptLine[] = [
+    { label: '初乗り運賃', detail: `${tariff.baseDistanceKm}km まで`, amountYen: tariff.baseFareYen },
+  ];
+  const steps = [
+    { label: '距離加算', count: item.distanceChargeSteps, fare: uniformStepFare(tariff.distanceBands) },
+    {
+      label: '時間加算',
+      count: item.timeChargeSteps,
+      // Combined billing charges low-speed time through the distance counter, at its fare.
+      fare: uniformStepFare(tariff.fareModel === 'combined' ? tariff.distanceBands : tariff.timeBands),
+    },
+  ].filter((step) => step.count > 0);
+
+  steps.forEach(({ label, count, fare }) => {
+    if (fare !== null) lines.push({ label, detail: `${count}回 × ${fare}円`, amountYen: count * fare });
+  });
+  const remainder = item.fareYen - lines.reduce((sum, line) => sum + line.amountYen, 0);
+  const unpriced = steps.filter((step) => step.fare === null);
+  if (unpriced.length > 0) {
+    // Steps are not counted per band, so band-priced steps take whatever the total leaves.
+    lines.push({
+      label: unpriced.map((step) => step.label).join('・'),
+      detail: `${unpriced.map((step) => `${step.count}回`).join('・')}（距離帯・時間帯別の単価）`,
+      amountYen: remainder,
+    });
+  } else if (remainder !== 0) {
+    // E.g. a custom preset edited after the ride.
+    lines.push({ label: '調整額', detail: '記録時の運賃との差額', amountYen: remainder });
+  }
+  return lines;
+}
+
+function findSurcharges(item: DriveHistoryItem, tariff: FarePreset): ReceiptSurcharge[] {
+  const surcharges: ReceiptSurcharge[] = [];
+  let openedAtMs: number | null = null;
+  [...item.events]
+    .sort((a, b) => a.atMs - b.atMs)
+    .forEach((event) => {
+      if (event.type === 'surcharge_start' && openedAtMs === null) {
+        openedAtMs = event.atMs;
+      } else if ((event.type === 'surcharge_end' || event.type === 'finish') && openedAtMs !== null) {
+        const window = getActiveSurcharge(tariff, openedAtMs);
+        surcharges.push({
+          label: window ? `${window.label} ${Math.round(window.rate * 100)}%` : '割増',
+          fromMs: openedAtMs,
+          toMs: event.atMs,
+        });
+        openedAtMs = null;
+      }
+    });
+  return surcharges;
+}
+
+export function getConsumptionTaxYen(totalYen: number): number {
+  return Math.floor((totalYen * CONSUMPTION_TAX_PERCENT) / (100 + CONSUMPTION_TAX_PERCENT));
+}
+
+export function buildReceipt(
+  item: DriveHistoryItem,
+  options: {
+    receiptNumber: number;
+    reissue: boolean;
+    issuerName: string;
+    issuedAtMs: number;
+    customPresets: FarePreset[];
+  }
+): Receipt {
+  const tariff = resolveRideTariff(item, options.customPresets);
+  const totalYen = getRideTotalYen(item);
+  return {
+    receiptNumber: options.receiptNumber,
+    reissue: options.reissue,
+    issuerName: options.issuerName.trim(),
+    issuedAtMs: options.issuedAtMs,
+    presetLabel: tariff.label,
+    startedAtMs: item.startedAtMs,
+    finishedAtMs: item.finishedAtMs,
+    distanceKm: item.distanceKm,
+    bridgedDistanceKm: item.bridgedDistanceKm ?? 0,
+    lines: buildFareLines(item, tariff),
+    surchargeSteps: item.surchargeChargeSteps ?? 0,
+    surcharges: findSurcharges(item, tariff),
+    pauses: item.pauseLogs,
+    meteredYen: item.fareYen,
+    discountLines: (item.discounts ?? []).map((discount) => ({
+      label: discount.label,
+      detail: discount.detail,
+      amountYen: discount.discountYen,
+    })),
+    discountedYen: getDiscountedFareYen(item),
+    extraLines: (item.extraCharges ?? []).map((charge) => ({
+      label: EXTRA_CHARGE_LABELS[charge.category],
+      detail: formatClock(charge.atMs),
+      amountYen: charge.amountYen,
+    })),
+    totalYen,
+    taxYen: getConsumptionTaxYen(totalYen),
+  };
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function formatReceiptDateTime(atMs: number): string {
+  const date = new Date(atMs);
+  return (
+    `${date.getFullYear()}/${pad2(date.getMonth() + 1)}/${pad2(date.getDate())} ` +
+    `${pad2(date.getHours())}:${pad2(date.getMinutes())}`
+  );
+}
+
+function formatClock(atMs: number): string {
+  const date = new Date(atMs);
+  return `${pad2(date.getHours())}:${pad2(date.getMinutes())}`;
+}
+
+function formatReceiptYen(amount: number): string {
+  return `¥${amount.toLocaleString('ja-JP')}`;
+}
+
+function formatReceiptDiscount(amount: number): string {
+  return `-¥${amount.toLocaleString('ja-JP')}`;
+}
+
+function describeLine(line: ReceiptLine): string {
+  return line.detail ? `${line.label}（${line.detail}）` : line.label;
+}
+
+export function formatReceiptNumber(receiptNumber: number): string {
+  return String(receiptNumber).padStart(6, '0');
+}
+
+function describeDistance(receipt: Receipt): string {
+  const total = (receipt.distanceKm + receipt.bridgedDistanceKm).toFixed(2);
+  return receipt.bridgedDistanceKm > 0
+    ? `${total} km（うち欠測補完 ${receipt.bridgedDistanceKm.toFixed(2)} km）`
+    : `${total} km`;
+}
+
+function describeSurchargeSummary(receipt: Receipt): string {
+  return `加算 ${receipt.surchargeSteps}回に適用（加算距離・時間を短縮。上記の回数に含む）`;
+}
+
+function describePauseSummary(receipt: Receipt): string {
+  const totalMs = receipt.pauses.reduce((sum, log) => sum + log.durationMs, 0);
+  return `${receipt.pauses.length}回 計 ${formatDuration(totalMs)}（料金対象外）`;
+}
+
+export function buildReceiptText(receipt: Receipt): string {
+  const lines = [
+    receipt.reissue ? '領収書（再発行）' : '領収書',
+    `No. ${formatReceiptNumber(receipt.receiptNumber)}`,
+    `発行日時: ${formatReceiptDateTime(receipt.issuedAtMs)}`,
+    ...(receipt.issuerName ? [`発行者: ${receipt.issuerName}`] : []),
+    '',
+    `合計 ${formatReceiptYen(receipt.totalYen)}（税込）`,
+    `  うち消費税等（${CONSUMPTION_TAX_PERCENT}%） ${formatReceiptYen(receipt.taxYen)}`,
+    '但し、タクシー運賃として',
+    '',
+    `乗車: ${formatReceiptDateTime(receipt.startedAtMs)}`,
+    `降車: ${formatReceiptDateTime(receipt.finishedAtMs)}`,
+    `距離: ${describeDistance(receipt)}`,
+    `運賃: ${receipt.presetLabel}`,
+    '',
+    '[内訳]',
+    ...receipt.lines.map((line) => `${line.label}（${line.detail}） ${formatReceiptYen(line.amountYen)}`),
+  ];
+  if (receipt.discountLines.length > 0 || receipt.extraLines.length > 0) {
+    lines.push(`メーター運賃 小計 ${formatReceiptYen(receipt.meteredYen)}`);
+  }
+  if (receipt.discountLines.length > 0) {
+    lines.push(
+      ...receipt.discountLines.map((line) => `${describeLine(line)} ${formatReceiptDiscount(line.amountYen)}`),
+      `割引後運賃 ${formatReceiptYen(receipt.discountedYen)}`
+    );
+  }
+  lines.push(
+    ...receipt.extraLines.map((line) => `${line.label}（${line.detail}） ${formatReceiptYen(line.amountYen)}`)
+  );
+  if (receipt.surchargeSteps > 0 || receipt.surcharges.length > 0) {
+    lines.push('', `[割増] ${describeSurchargeSummary(receipt)}`);
+    receipt.surcharges.forEach((surcharge) => {
+      lines.push(`  ${surcharge.label}: ${formatClock(surcharge.fromMs)}〜${formatClock(surcharge.toMs)}`);
+    });
+  }
+  if (receipt.pauses.length > 0) {
+    lines.push('', `[一時停止] ${describePauseSummary(receipt)}`);
+    receipt.pauses.forEach((log) => {
+      lines.push(
+        `  ${formatClock(log.pausedAtMs)}〜${formatClock(log.resumedAtMs)}（${formatDuration(log.durationMs)}）`
+      );
+    });
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function htmlRow(label: string, value: string, className = ''): string {
+  const classAttribute = className ? ` class="${className}"` : '';
+  return `<tr${classAttribute}><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`;
+}
+
+export function buildReceiptHtml(receipt: Receipt): string {
+  const title = receipt.reissue ? '領収書（再発行）' : '領収書';
+  const fareRows = receipt.lines.map((line) =>
+    htmlRow(`${line.label}（${line.detail}）`, formatReceiptYen(line.amountYen))
+  );
+  const subtotalRows =
+    receipt.discountLines.length > 0 || receipt.extraLines.length > 0
+      ? [htmlRow('メーター運賃 小計', formatReceiptYen(receipt.meteredYen))]
+      : [];
+  const discountRows =
+    receipt.discountLines.length > 0
+      ? [
+          ...receipt.discountLines.map((line) => htmlRow(describeLine(line), formatReceiptDiscount(line.amountYen))),
+          htmlRow('割引後運賃', formatReceiptYen(receipt.discountedYen)),
+        ]
+      : [];
+  const extraRows = receipt.extraLines.map((line) =>
+    htmlRow(`${line.label}（${line.detail}）`, formatReceiptYen(line.amountYen))
+  );
+  const surchargeRows =
+    receipt.surchargeSteps > 0 || receipt.surcharges.length > 0
+      ? [
+          htmlRow('割増', describeSurchargeSummary(receipt), 'note'),
+          ...receipt.surcharges.map((surcharge) =>
+            htmlRow(surcharge.label, `${formatClock(surcharge.fromMs)}〜${formatClock(surcharge.toMs)}`, 'note')
+          ),
+        ]
+      : [];
+  const pauseRows =
+    receipt.pauses.length > 0
+      ? [
+          htmlRow('一時停止', describePauseSummary(receipt), 'note'),
+          ...receipt.pauses.map((log) =>
+            htmlRow(
+              `${formatClock(log.pausedAtMs)}〜${formatClock(log.resumedAtMs)}`,
+              formatDuration(log.durationMs),
+              'note'
+            )
+          ),
+        ]
+      : [];
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="ja">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)} No. ${formatReceiptNumber(receipt.receiptNumber)}</title>`,
+    '<style>',
+    'body{font-family:sans-serif;max-width:420px;margin:24px auto;color:#111}',
+    'h1{text-align:center;letter-spacing:.5em;font-size:22px}',
+    '.total{font-size:26px;text-align:center;border-bottom:2px solid #111;padding:8px 0}',
+    '.tax,.purpose{text-align:center;margin:4px 0}',
+    'table{width:100%;border-collapse:collapse;margin-top:12px}',
+    'th{text-align:left;font-weight:normal;padding:2px 0}',
+    'td{text-align:right;padding:2px 0}',
+    'tr.note th,tr.note td{color:#555;font-size:12px}',
+    '.meta{font-size:12px;color:#333;text-align:right}',
+    '</style>',
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p class="meta">No. ${formatReceiptNumber(receipt.receiptNumber)}<br>発行日時: ${formatReceiptDateTime(receipt.issuedAtMs)}</p>`,
+    `<p class="total">${formatReceiptYen(receipt.totalYen)}（税込）</p>`,
+    `<p class="tax">うち消費税等（${CONSUMPTION_TAX_PERCENT}%） ${formatReceiptYen(receipt.taxYen)}</p>`,
+    '<p class="purpose">但し、タクシー運賃として</p>',
+    '<table>',
+    htmlRow('乗車', formatReceiptDateTime(receipt.startedAtMs)),
+    htmlRow('降車', formatReceiptDateTime(receipt.finishedAtMs)),
+    htmlRow('距離', describeDistance(receipt)),
+    htmlRow('運賃', receipt.presetLabel),
+    '</table>',
+    '<table>',
+    ...fareRows,
+    ...subtotalRows,
+    ...discountRows,
+    ...extraRows,
+    htmlRow('合計（税込）', formatReceiptYen(receipt.totalYen)),
+    ...surchargeRows,
+    ...pauseRows,
+    '</table>',
+    receipt.issuerName ? `<p class="meta">${escapeHtml(receipt.issuerName)}</p>` : '',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+export type IssuedReceipt = {
+  receipt: Receipt;
+  item: DriveHistoryItem;
+  textPath: string;
+  htmlPath: string;
+};
+
+export function findLargestReceiptNumber(items: Pick<DriveHistoryItem, 'receiptNumber'>[]): number {
+  return items.reduce((largest, item) => Math.max(largest, item.receiptNumber ?? 0), 0);
+}
+
+async function loadLastReceiptNumber(): Promise<number> {
+  try {
+    const info = await FileSystem.getInfoAsync(RECEIPT_COUNTER_FILE);
+    if (info.exists) {
+      const parsed: unknown = JSON.parse(await FileSystem.readAsStringAsync(RECEIPT_COUNTER_FILE));
+      if (isRecord(parsed) && typeof parsed.lastReceiptNumber === 'number') return parsed.lastReceiptNumber;
+    }
+  } catch {
+    // Recovered below from what has been issued.
+  }
+  // The counter used to be kept in the settings; the history holds every number issued since.
+  const settings = await loadAppSettings();
+  const history = await loadDriveHistory({ includeDeleted: true });
+  return Math.max((settings.nextReceiptNumber ?? 1) - 1, findLargestReceiptNumber(history));
+}
+
+async function saveLastReceiptNumber(receiptNumber: number): Promise<void> {
+  await writeFileAtomically(RECEIPT_COUNTER_FILE, JSON.stringify({ lastReceiptNumber: receiptNumber }));
+}
+
+// Counter reads and updates run one at a time, so two quick issues never get the same number.
+let counterQueue: Promise<unknown> = Promise.resolve();
+
+function withReceiptCounter<T>(operation: () => Promise<T>): Promise<T> {
+  const next = counterQueue.catch(() => undefined).then(operation);
+  counterQueue = next;
+  return next;
+}
+
+export function loadNextReceiptNumber(): Promise<number> {
+  return withReceiptCounter(async () => (await loadLastReceiptNumber()) + 1);
+}
+
+// Moves the counter past numbers that came back with restored or imported data. It never moves
+// the counter back.
+export function raiseReceiptCounter(lastIssued: number): Promise<void> {
+  return withReceiptCounter(async () => {
+    if (lastIssued > (await loadLastReceiptNumber())) await saveLastReceiptNumber(lastIssued);
+  });
+}
+
+// A ride's first receipt takes the next number; later ones reprint it marked 再発行. The stored
+// ride is read again, so a second tap reprints rather than taking another number. The counter
+// is saved before anything else so a failure further on never hands the same number out twice.
+export function issueReceipt(
+  item: DriveHistoryItem,
+  settings: AppSettings,
+  customPresets: FarePreset[],
+  nowMs = Date.now()
+): Promise<IssuedReceipt> {
+  return withReceiptCounter(async () => {
+    const stored = (await loadDriveHistoryItem(item)) ?? item;
+    const reissue = stored.receiptNumber !== undefined;
+    const receiptNumber = stored.receiptNumber ?? (await loadLastReceiptNumber()) + 1;
+    if (!reissue) await saveLastReceiptNumber(receiptNumber);
+
+    const updated = (await recordReceiptIssued(stored, receiptNumber, nowMs)) ?? stored;
+    const receipt = buildReceipt(updated, {
+      receiptNumber,
+      reissue,
+      issuerName: settings.receiptIssuerName,
+      issuedAtMs: nowMs,
+      customPresets,
+    });
+    const baseName = `receipt-${formatReceiptNumber(receiptNumber)}`;
+    const textPath = documentPath(`${baseName}.txt`);
+    const htmlPath = documentPath(`${baseName}.html`);
+    await FileSystem.writeAsStringAsync(textPath, buildReceiptText(receipt));
+    await FileSystem.writeAsStringAsync(htmlPath, buildReceiptHtml(receipt));
+    return { receipt, item: updated, textPath, htmlPath };
+  });
+}
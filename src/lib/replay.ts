@@ -0,0 +1,115 @@
+import { FarePreset, FareRuntime } from './fare';
+import { DistanceMethod } from './geo';
+import { GpsFilterKind } from './gpsFilter';
+import type { SessionEvent } from './history';
+import {
+  BillingMode,
+  createPipelineState,
+  getDesiredLocationProfile,
+  LocationProfile,
+  LocationSample,
+  MeterPipelineState,
+  processLocationSample,
+} from './pipeline';
+
+export type ReplayTimelinePoint = {
+  atMs: number;
+  fareYen: number;
+  distanceKm: number;
+  speedKmh: number | null;
+  billingMode: BillingMode;
+};
+
+export type ReplayResult = {
+  timeline: ReplayTimelinePoint[];
+  distanceKm: number;
+  bridgedDistanceKm: number;
+  fareYen: number;
+  acceptedSamples: number;
+  filteredSamples: number;
+  filteredReasons: Record<string, number>;
+  distanceChargeSteps: number;
+  timeChargeSteps: number;
+  surchargeChargeSteps: number;
+  profileSwitchCount: number;
+  // surcharge_start / surcharge_end, as the live meter records them.
+  events: SessionEvent[];
+  fareRuntime: FareRuntime;
+  finalState: MeterPipelineState;
+};
+
+// Runs a recorded trace through the same pipeline as the live meter. Profile switches are applied
+// immediately, whereas the app applies them once the location watch has restarted.
+export function replayTrace(params: {
+  samples: LocationSample[];
+  preset: FarePreset;
+  initialState?: MeterPipelineState;
+  initialProfile?: LocationProfile;
+  gpsFilter?: GpsFilterKind;
+  distanceMethod?: DistanceMethod;
+}): ReplayResult {
+  const { preset } = params;
+  const samples = [...params.samples].sort((a, b) => a.timestamp - b.timestamp);
+  let state =
+    params.initialState ??
+    createPipelineState(preset, { gpsFilter: params.gpsFilter, distanceMethod: params.distanceMethod });
+  let profile = params.initialProfile ?? 'balanced';
+  let profileSwitchCount = 0;
+  const timeline: ReplayTimelinePoint[] = [];
+  const filteredReasons: Record<string, number> = {};
+  const events: SessionEvent[] = [];
+
+  samples.forEach((sample) => {
+    const result = processLocationSample(state, sample, preset);
+    state = result.state;
+    const { outcome } = result;
+
+    if (outcome.kind === 'filtered') {
+      filteredReasons[outcome.reason] = (filteredReasons[outcome.reason] ?? 0) + 1;
+      timeline.push({
+        atMs: sample.timestamp,
+        fareYen: state.fareRuntime.fareYen,
+        distanceKm: state.distanceKm,
+        speedKmh: null,
+        billingMode: 'unknown',
+      });
+      return;
+    }
+
+    if (outcome.kind !== 'accepted') return;
+
+    if (outcome.surchargeTransition) {
+      events.push({ type: outcome.surchargeTransition, atMs: sample.timestamp });
+    }
+    timeline.push({
+      atMs: sample.timestamp,
+      fareYen: state.fareRuntime.fareYen,
+      distanceKm: state.distanceKm,
+      speedKmh: outcome.speedKmh,
+      billingMode: outcome.billingMode,
+    });
+
+    const desiredProfile = getDesiredLocationProfile(outcome.speedKmh, profile);
+    if (desiredProfile !== profile) {
+      profile = desiredProfile;
+      profileSwitchCount += 1;
+    }
+  });
+
+  return {
+    timeline,
+    distanceKm: state.distanceKm,
+    bridgedDistanceKm: state.bridgedDistanceKm,
+    fareYen: state.fareRuntime.fareYen,
+    acceptedSamples: state.acceptedSamples,
+    filteredSamples: state.filteredSamples,
+    filteredReasons,
+    distanceChargeSteps: state.fareRuntime.distanceChargeSteps,
+    timeChargeSteps: state.fareRuntime.timeChargeSteps,
+    surchargeChargeSteps: state.fareRuntime.surchargeChargeSteps,
+    profileSwitchCount,
+    events,
+    fareRuntime: state.fareRuntime,
+    finalState: state,
+  };
+}
@@ -0,0 +1,104 @@
+import { createFareRuntime, FarePreset, FareRevision, updateFareBySegment } from './fare';
+
+export type ResolvedTariff = {
+  preset: FarePreset;
+  revision: FareRevision;
+};
+
+export type FareUsage = {
+  distanceModeKm: number;
+  lowSpeedSeconds: number;
+};
+
+function toLocalDateKey(atMs: number): string {
+  const date = new Date(atMs);
+  const y = date.getFullYear().toString();
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+export function getPresetRevisions(preset: FarePreset): FareRevision[] {
+  if (preset.revisions && preset.revisions.length > 0) return preset.revisions;
+  return [
+    {
+      id: `${preset.id}@current`,
+      effectiveFrom: preset.catalog?.effectiveFrom ?? '',
+      effectiveTo: null,
+      overrides: {},
+    },
+  ];
+}
+
+export function findRevisionAt(preset: FarePreset, atMs: number): FareRevision {
+  const revisions = getPresetRevisions(preset);
+  const day = toLocalDateKey(atMs);
+  const active = revisions.find(
+    (revision) =>
+      revision.effectiveFrom <= day && (revision.effectiveTo === null || day < revision.effectiveTo)
+  );
+  if (active) return active;
+
+  // Before the first revision the oldest known tariff is the best guess; otherwise the latest.
+  const first = revisions[0]!;
+  return day < first.effectiveFrom ? first : revisions[revisions.length - 1]!;
+}
+
+// Local midnight of the next day a revision starts or ends after atMs, or null if none is left.
+export function findNextRevisionBoundaryMs(preset: FarePreset, atMs: number): number | null {
+  const day = toLocalDateKey(atMs);
+  const next = getPresetRevisions(preset)
+    .flatMap((revision) => [revision.effectiveFrom, revision.effectiveTo ?? ''])
+    .filter((key) => key > day)
+    .sort()[0];
+  if (!next) return null;
+
+  const [y, m, d] = next.split('-').map(Number);
+  return new Date(y ?? 0, (m ?? 1) - 1, d ?? 1).getTime();
+}
+
+export function applyRevision(preset: FarePreset, revision: FareRevision): FarePreset {
+  return { ...preset, ...revision.overrides };
+}
+
+export function resolvePresetAt(preset: FarePreset, atMs: number): ResolvedTariff {
+  const revision = findRevisionAt(preset, atMs);
+  return { preset: applyRevision(preset, revision), revision };
+}
+
+export function formatRevisionPeriod(revision: FareRevision): string {
+  return `${revision.effectiveFrom || '-'}〜${revision.effectiveTo ?? '現在'}`;
+}
+
+// Re-prices from usage totals. Surcharges are ignored because the totals do not keep time of day.
+export function estimateFareUnderRevision(
+  preset: FarePreset,
+  revision: FareRevision,
+  usage: FareUsage
+): number {
+  const revised: FarePreset = { ...applyRevision(preset, revision), surchargeWindows: [] };
+  let runtime = createFareRuntime(revised);
+
+  if (usage.distanceModeKm > 0) {
+    runtime = updateFareBySegment({
+      preset: revised,
+      runtime,
+      deltaDistanceKm: usage.distanceModeKm,
+      deltaSeconds: 1,
+      speedKmh: Number.POSITIVE_INFINITY,
+      atMs: 0,
+    });
+  }
+  if (usage.lowSpeedSeconds > 0) {
+    runtime = updateFareBySegment({
+      preset: revised,
+      runtime,
+      deltaDistanceKm: 0,
+      deltaSeconds: usage.lowSpeedSeconds,
+      speedKmh: 0,
+      atMs: 0,
+    });
+  }
+
+  return runtime.fareYen;
+}
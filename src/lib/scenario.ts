@@ -0,0 +1,152 @@
+import { destinationPoint } from './geo';
+import { LocationSample } from './pipeline';
+import { LatLng } from './types';
+
+// Virtual drives are scripted as comma-separated segments, e.g.
+// "30km/h 5分, 停車 2分, 60km/h 10km". Each segment runs at one speed for a duration or a distance.
+
+const SAMPLE_INTERVAL_MS = 1000;
+const SYNTHETIC_ACCURACY_METERS = 5;
+const MAX_SCENARIO_SECONDS = 6 * 3600;
+// Tokyo Station, heading east. The route only matters for the stored track.
+const DEFAULT_ORIGIN: LatLng = { latitude: 35.681236, longitude: 139.767125 };
+const DEFAULT_BEARING_DEGREES = 90;
+
+export const DEFAULT_SCENARIO = '30km/h 5分, 停車 2分, 60km/h 10km';
+
+export type ScenarioSegment = {
+  speedKmh: number;
+  durationSeconds: number;
+  distanceKm: number;
+};
+
+export type ParsedScenario = {
+  segments: ScenarioSegment[];
+  errors: string[];
+};
+
+const SPEED_PATTERN = /(\d+(?:\.\d+)?)\s*km\/h/i;
+const STOP_PATTERN = /停車|停止|stop/i;
+const AMOUNT_PATTERN = /(\d+(?:\.\d+)?)\s*(km|時間|分|秒|hours?|h|min|sec|s)(?![a-z])/i;
+
+const SECONDS_PER_UNIT: Record<string, number> = {
+  時間: 3600,
+  hour: 3600,
+  hours: 3600,
+  h: 3600,
+  分: 60,
+  min: 60,
+  秒: 1,
+  sec: 1,
+  s: 1,
+};
+
+function parseSegment(text: string, position: number): ScenarioSegment | string {
+  const speedMatch = SPEED_PATTERN.exec(text);
+  const stopped = STOP_PATTERN.test(text);
+  if (!speedMatch && !stopped) {
+    return `${position}番目: 速度（例: 30km/h）または「停車」を指定してください`;
+  }
+
+  const speedKmh = speedMatch ? Number(speedMatch[1]) : 0;
+  const rest = speedMatch ? text.replace(speedMatch[0], ' ') : text;
+  const amountMatch = AMOUNT_PATTERN.exec(rest);
+  if (!amountMatch) {
+    return `${position}番目: 時間（分/秒）または距離（km）を指定してください`;
+  }
+
+  const amount = Number(amountMatch[1]);
+  const unit = amountMatch[2]!.toLowerCase();
+  if (!(amount > 0)) {
+    return `${position}番目: 時間・距離は 0 より大きくしてください`;
+  }
+
+  if (unit === 'km') {
+    if (speedKmh <= 0) return `${position}番目: 停車中は距離ではなく時間を指定してください`;
+    return { speedKmh, distanceKm: amount, durationSeconds: (amount / speedKmh) * 3600 };
+  }
+
+  const durationSeconds = amount * SECONDS_PER_UNIT[unit]!;
+  return { speedKmh, durationSeconds, distanceKm: (speedKmh * durationSeconds) / 3600 };
+}
+
+export function parseScenario(text: string): ParsedScenario {
+  const parts = text
+    .split(/[,、，\n]/)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+  const segments: ScenarioSegment[] = [];
+  const errors: string[] = [];
+
+  parts.forEach((part, index) => {
+    const parsed = parseSegment(part, index + 1);
+    if (typeof parsed === 'string') {
+      errors.push(parsed);
+    } else {
+      segments.push(parsed);
+    }
+  });
+
+  if (parts.length === 0) {
+    errors.push('区間を1つ以上指定してください');
+  }
+  const totalSeconds = segments.reduce((sum, segment) => sum + segment.durationSeconds, 0);
+  if (totalSeconds > MAX_SCENARIO_SECONDS) {
+    errors.push(`合計時間は ${MAX_SCENARIO_SECONDS / 3600} 時間以内にしてください`);
+  }
+
+  return { segments, errors };
+}
+
+export function getScenarioTotals(segments: ScenarioSegment[]): {
+  durationSeconds: number;
+  distanceKm: number;
+} {
+  return segments.reduce(
+    (totals, segment) => ({
+      durationSeconds: totals.durationSeconds + segment.durationSeconds,
+      distanceKm: totals.distanceKm + segment.distanceKm,
+    }),
+    { durationSeconds: 0, distanceKm: 0 }
+  );
+}
+
+// Emits one sample per second along a straight line, as a virtual location provider would.
+// The last sample lands at endMs, so a ride generated now is a ride that has just finished.
+export function generateScenarioSamples(params: {
+  segments: ScenarioSegment[];
+  endMs: number;
+  origin?: LatLng;
+  bearingDegrees?: number;
+}): LocationSample[] {
+  const bearing = params.bearingDegrees ?? DEFAULT_BEARING_DEGREES;
+  let point = params.origin ?? DEFAULT_ORIGIN;
+  const segmentMs = params.segments.map((segment) => Math.round(segment.durationSeconds * 1000));
+  let atMs = params.endMs - segmentMs.reduce((total, ms) => total + ms, 0);
+  const samples: LocationSample[] = [
+    {
+      timestamp: atMs,
+      ...point,
+      speedMps: (params.segments[0]?.speedKmh ?? 0) / 3.6,
+      accuracyMeters: SYNTHETIC_ACCURACY_METERS,
+    },
+  ];
+
+  params.segments.forEach((segment, index) => {
+    let remainingMs = segmentMs[index] ?? 0;
+    while (remainingMs > 0) {
+      const stepMs = Math.min(SAMPLE_INTERVAL_MS, remainingMs);
+      remainingMs -= stepMs;
+      atMs += stepMs;
+      point = destinationPoint(point, (segment.speedKmh * stepMs) / 3_600_000, bearing);
+      samples.push({
+        timestamp: atMs,
+        ...point,
+        speedMps: segment.speedKmh / 3.6,
+        accuracyMeters: SYNTHETIC_ACCURACY_METERS,
+      });
+    }
+  });
+
+  return samples;
+}
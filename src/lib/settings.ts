@@ -0,0 +1,70 @@
+import { CSV_COLUMNS, CSV_ROW_MODE_LABELS, CsvColumnId, CsvRowMode, DEFAULT_CSV_COLUMNS } from './csvExport';
+import { documentPath, FileSystem } from './fileSystem';
+import { checkNumber, checkOneOf, checkOptional, checkString, collectErrors, isRecord } from './storage';
+
+const SETTINGS_FILE = documentPath('app-settings-v1.json');
+
+// What happens to a running ride when the app leaves the foreground.
+export type BackgroundBehavior = 'pause' | 'track';
+
+export const BACKGROUND_BEHAVIOR_LABELS: Record<BackgroundBehavior, string> = {
+  pause: '自動一時停止',
+  track: '計測を継続',
+};
+
+export type AppSettings = {
+  backgroundBehavior: BackgroundBehavior;
+  // Last CSV export choices, so accounting gets the same layout every time.
+  csvColumns: CsvColumnId[];
+  csvRowMode: CsvRowMode;
+  // Printed on receipts.
+  receiptIssuerName: string;
+  // Where the receipt counter was kept before it got a file of its own; only read to seed that
+  // file. Missing in newer settings.
+  nextReceiptNumber?: number;
+};
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  backgroundBehavior: 'pause',
+  csvColumns: DEFAULT_CSV_COLUMNS,
+  csvRowMode: 'ride',
+  receiptIssuerName: '',
+};
+
+function checkCsvColumns(record: Record<string, unknown>, key: string): string | null {
+  const value = record[key];
+  return Array.isArray(value) && value.every((id) => CSV_COLUMNS.some((column) => column.id === id))
+    ? null
+    : `${key}: 列IDの配列ではありません`;
+}
+
+export function validateAppSettings(value: unknown): string[] {
+  if (!isRecord(value)) return ['オブジェクトではありません'];
+  return collectErrors([
+    checkOneOf(value, 'backgroundBehavior', Object.keys(BACKGROUND_BEHAVIOR_LABELS)),
+    checkCsvColumns(value, 'csvColumns'),
+    checkOneOf(value, 'csvRowMode', Object.keys(CSV_ROW_MODE_LABELS)),
+    // Missing in settings saved before receipts; loading fills in the defaults.
+    checkOptional(value, 'receiptIssuerName', checkString),
+    checkOptional(value, 'nextReceiptNumber', checkNumber),
+  ]);
+}
+
+export async function loadAppSettings(): Promise<AppSettings> {
+  try {
+    const info = await FileSystem.getInfoAsync(SETTINGS_FILE);
+    if (!info.exists) return DEFAULT_APP_SETTINGS;
+
+    const raw = await FileSystem.readAsStringAsync(SETTINGS_FILE);
+    const parsed = JSON.parse(raw) as Partial<AppSettings>;
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_APP_SETTINGS;
+
+    return { ...DEFAULT_APP_SETTINGS, ...parsed };
+  } catch {
+    return DEFAULT_APP_SETTINGS;
+  }
+}
+
+export async function saveAppSettings(settings: AppSettings): Promise<void> {
+  await FileSystem.writeAsStringAsync(SETTINGS_FILE, JSON.stringify(settings));
+}
@@ -0,0 +1,160 @@
+import { documentPath, FileSystem, writeFileAtomically } from './fileSystem';
+
+// Versioned JSON files. Each file is stored as { schemaVersion, data }. Files written before
+// versioning have no envelope and are read as version 1. Older files are brought up to date by
+// running the schema's migrations in order; records that still fail validation are moved to the
+// quarantine file instead of being dropped.
+
+const QUARANTINE_FILE = documentPath('storage-quarantine-v1.json');
+
+// Upgrades data from version N (the key) to N + 1. Input has not been validated yet.
+export type Migration = (data: unknown) => unknown;
+
+export type StorageSchema = {
+  name: string;
+  currentVersion: number;
+  migrations: Record<number, Migration>;
+};
+
+export type StoredFile = {
+  schemaVersion: number;
+  data: unknown;
+};
+
+export type QuarantineEntry = {
+  quarantinedAtMs: number;
+  source: string;
+  schemaVersion: number | null;
+  reasons: string[];
+  record: unknown;
+};
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function parseStoredFile(raw: string): StoredFile {
+  const parsed: unknown = JSON.parse(raw);
+  if (isRecord(parsed) && typeof parsed.schemaVersion === 'number' && 'data' in parsed) {
+    return { schemaVersion: parsed.schemaVersion, data: parsed.data };
+  }
+  return { schemaVersion: 1, data: parsed };
+}
+
+export function migrateStoredFile(schema: StorageSchema, file: StoredFile): StoredFile {
+  if (file.schemaVersion > schema.currentVersion) {
+    throw new Error(
+      `${schema.name}: schema v${file.schemaVersion} is newer than supported v${schema.currentVersion}`
+    );
+  }
+
+  let { schemaVersion, data } = file;
+  while (schemaVersion < schema.currentVersion) {
+    const migration = schema.migrations[schemaVersion];
+    if (!migration) {
+      throw new Error(`${schema.name}: no migration from schema v${schemaVersion}`);
+    }
+    data = migration(data);
+    schemaVersion += 1;
+  }
+  return { schemaVersion, data };
+}
+
+export function serializeStoredFile(schema: StorageSchema, data: unknown): string {
+  return JSON.stringify({ schemaVersion: schema.currentVersion, data });
+}
+
+export async function writeStoredFile(
+  schema: StorageSchema,
+  fileUri: string,
+  data: unknown
+): Promise<void> {
+  await writeFileAtomically(fileUri, serializeStoredFile(schema, data));
+}
+
+export async function loadQuarantine(): Promise<QuarantineEntry[]> {
+  try {
+    const info = await FileSystem.getInfoAsync(QUARANTINE_FILE);
+    if (!info.exists) return [];
+    const parsed: unknown = JSON.parse(await FileSystem.readAsStringAsync(QUARANTINE_FILE));
+    return Array.isArray(parsed) ? (parsed as QuarantineEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function quarantineRecords(
+  source: string,
+  schemaVersion: number | null,
+  entries: { reasons: string[]; record: unknown }[],
+  nowMs = Date.now()
+): Promise<void> {
+  if (entries.length === 0) return;
+  const current = await loadQuarantine();
+  const added: QuarantineEntry[] = entries.map((entry) => ({
+    quarantinedAtMs: nowMs,
+    source,
+    schemaVersion,
+    ...entry,
+  }));
+  await writeFileAtomically(QUARANTINE_FILE, JSON.stringify([...current, ...added]));
+}
+
+// Field checks shared by the record validators. Each returns an error message or null.
+export function checkNumber(record: Record<string, unknown>, key: string): string | null {
+  const value = record[key];
+  return typeof value === 'number' && Number.isFinite(value) ? null : `${key}: 数値ではありません`;
+}
+
+export function checkString(record: Record<string, unknown>, key: string): string | null {
+  return typeof record[key] === 'string' ? null : `${key}: 文字列ではありません`;
+}
+
+export function checkOneOf(
+  record: Record<string, unknown>,
+  key: string,
+  allowed: readonly string[]
+): string | null {
+  const value = record[key];
+  return typeof value === 'string' && allowed.includes(value)
+    ? null
+    : `${key}: ${allowed.join(' / ')} のいずれでもありません`;
+}
+
+export function checkOptional(
+  record: Record<string, unknown>,
+  key: string,
+  check: (record: Record<string, unknown>, key: string) => string | null
+): string | null {
+  return record[key] === undefined ? null : check(record, key);
+}
+
+export function checkLatLngOrNull(record: Record<string, unknown>, key: string): string | null {
+  const value = record[key];
+  if (value === null) return null;
+  if (
+    isRecord(value) &&
+    typeof value.latitude === 'number' &&
+    typeof value.longitude === 'number'
+  ) {
+    return null;
+  }
+  return `${key}: 座標ではありません`;
+}
+
+export function checkArrayOf(
+  record: Record<string, unknown>,
+  key: string,
+  validateItem: (item: Record<string, unknown>) => (string | null)[]
+): string | null {
+  const value = record[key];
+  if (!Array.isArray(value)) return `${key}: 配列ではありません`;
+  const index = value.findIndex(
+    (item) => !isRecord(item) || validateItem(item).some((error) => error !== null)
+  );
+  return index < 0 ? null : `${key}[${index}]: 形式が正しくありません`;
+}
+
+export function collectErrors(checks: (string | null)[]): string[] {
+  return checks.filter((error): error is string => error !== null);
+}
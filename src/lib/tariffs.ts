@@ -0,0 +1,389 @@
+import type { FarePreset, FareRevision, SurchargeWindow, TariffNotice, VehicleClass } from './fare';
+
+// Transcribed from the 一般乗用旅客自動車運送事業 運賃公示 issued by each 地方運輸局. Check
+// `catalog.notice` and `catalog.effectiveFrom` against the published notice before relying on
+// a figure.
+//
+// This is a partial dataset, not every MLIT fare block: only the 交通圏 of each region's main
+// city, with the 距離制運賃 and the 深夜早朝 surcharge. 新潟, 広島 and 高松 have the medium
+// class only, and 特別区・武三 and 京浜 the standard class only. Left out: the other 交通圏 and
+// 地区 of each region, the small class of the three blocks above, large, 特定大型 and welfare
+// vehicles, 時間制 and 定額 fares, 迎車 and other 料金, and surcharges other than 深夜早朝.
+// Add an entry only once it has been checked against its notice; until then use a custom preset.
+
+export const LATE_NIGHT_SURCHARGE: SurchargeWindow = {
+  label: '深夜早朝',
+  startMinuteOfDay: 22 * 60,
+  endMinuteOfDay: 5 * 60,
+  rate: 0.2,
+};
+
+export const REGION_ORDER = [
+  '北海道',
+  '東北',
+  '関東',
+  '北陸信越',
+  '中部',
+  '近畿',
+  '中国',
+  '四国',
+  '九州',
+  '沖縄',
+];
+
+// Who publishes the fare notices for each region.
+const REGION_AUTHORITIES = {
+  北海道: { authority: '北海道運輸局', url: 'https://wwwtb.mlit.go.jp/hokkaido/' },
+  東北: { authority: '東北運輸局', url: 'https://wwwtb.mlit.go.jp/tohoku/' },
+  関東: { authority: '関東運輸局', url: 'https://wwwtb.mlit.go.jp/kanto/' },
+  北陸信越: { authority: '北陸信越運輸局', url: 'https://wwwtb.mlit.go.jp/hokushin/' },
+  中部: { authority: '中部運輸局', url: 'https://wwwtb.mlit.go.jp/chubu/' },
+  近畿: { authority: '近畿運輸局', url: 'https://wwwtb.mlit.go.jp/kinki/' },
+  中国: { authority: '中国運輸局', url: 'https://wwwtb.mlit.go.jp/chugoku/' },
+  四国: { authority: '四国運輸局', url: 'https://wwwtb.mlit.go.jp/shikoku/' },
+  九州: { authority: '九州運輸局', url: 'https://wwwtb.mlit.go.jp/kyushu/' },
+  沖縄: { authority: '沖縄総合事務局 運輸部', url: 'https://www.ogb.go.jp/unyu' },
+} satisfies Record<string, Omit<TariffNotice, 'subject'>>;
+
+export const VEHICLE_CLASS_LABELS: Record<VehicleClass, string> = {
+  small: '小型',
+  medium: '中型',
+  standard: '普通車',
+};
+
+function regionalTariff(entry: {
+  id: string;
+  region: keyof typeof REGION_AUTHORITIES;
+  block: string;
+  vehicleClass: VehicleClass;
+  baseFareYen: number;
+  baseDistanceKm: number;
+  distanceStepKm: number;
+  stepFareYen: number;
+  lowSpeedStepSeconds: number;
+  effectiveFrom: string;
+  revisions?: FareRevision[];
+}): FarePreset {
+  const vehicleLabel =
+    VEHICLE_CLASS_LABELS[entry.vehicleClass] + (entry.vehicleClass === 'standard' ? '' : '車');
+  return {
+    id: entry.id,
+    label: `${entry.block}（${VEHICLE_CLASS_LABELS[entry.vehicleClass]}）`,
+    baseFareYen: entry.baseFareYen,
+    baseDistanceKm: entry.baseDistanceKm,
+    distanceBands: [{ fromKm: 0, stepKm: entry.distanceStepKm, stepFareYen: entry.stepFareYen }],
+    lowSpeedThresholdKmh: 10,
+    timeBands: [
+      { fromSeconds: 0, stepSeconds: entry.lowSpeedStepSeconds, stepFareYen: entry.stepFareYen },
+    ],
+    surchargeWindows: [LATE_NIGHT_SURCHARGE],
+    fareModel: 'combined',
+    catalog: {
+      region: entry.region,
+      block: entry.block,
+      vehicleClass: entry.vehicleClass,
+      notice: {
+        ...REGION_AUTHORITIES[entry.region],
+        subject: `${entry.block} ${vehicleLabel} 一般乗用旅客自動車運送事業の運賃`,
+      },
+      effectiveFrom: entry.effectiveFrom,
+    },
+    revisions: entry.revisions,
+  };
+}
+
+export const REGIONAL_TARIFFS: FarePreset[] = [
+  regionalTariff({
+    id: 'jp-sapporo-medium',
+    region: '北海道',
+    block: '札幌交通圏',
+    vehicleClass: 'medium',
+    baseFareYen: 670,
+    baseDistanceKm: 1.6,
+    distanceStepKm: 0.273,
+    stepFareYen: 80,
+    lowSpeedStepSeconds: 100,
+    effectiveFrom: '2019-10-01',
+  }),
+  regionalTariff({
+    id: 'jp-sapporo-small',
+    region: '北海道',
+    block: '札幌交通圏',
+    vehicleClass: 'small',
+    baseFareYen: 650,
+    baseDistanceKm: 1.6,
+    distanceStepKm: 0.296,
+    stepFareYen: 80,
+    lowSpeedStepSeconds: 110,
+    effectiveFrom: '2019-10-01',
+  }),
+  regionalTariff({
+    id: 'jp-sendai-medium',
+    region: '東北',
+    block: '仙台市',
+    vehicleClass: 'medium',
+    baseFareYen: 680,
+    baseDistanceKm: 1.5,
+    distanceStepKm: 0.252,
+    stepFareYen: 90,
+    lowSpeedStepSeconds: 95,
+    effectiveFrom: '2019-10-01',
+  }),
+  regionalTariff({
+    id: 'jp-sendai-small',
+    region: '東北',
+    block: '仙台市',
+    vehicleClass: 'small',
+    baseFareYen: 660,
+    baseDistanceKm: 1.5,
+    distanceStepKm: 0.272,
+    stepFareYen: 90,
+    lowSpeedStepSeconds: 100,
+    effectiveFrom: '2019-10-01',
+  }),
+  regionalTariff({
+    id: 'jp-tokyo-23-standard',
+    region: '関東',
+    block: '特別区・武三地区',
+    vehicleClass: 'standard',
+    baseFareYen: 500,
+    baseDistanceKm: 1.096,
+    distanceStepKm: 0.255,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 95,
+    effectiveFrom: '2022-11-14',
+    revisions: [
+      {
+        id: 'jp-tokyo-23-standard@2014-04-01',
+        effectiveFrom: '2014-04-01',
+        effectiveTo: '2017-01-30',
+        overrides: {
+          baseFareYen: 730,
+          baseDistanceKm: 2.0,
+          distanceBands: [{ fromKm: 0, stepKm: 0.28, stepFareYen: 90 }],
+          timeBands: [{ fromSeconds: 0, stepSeconds: 105, stepFareYen: 90 }],
+        },
+      },
+      {
+        id: 'jp-tokyo-23-standard@2017-01-30',
+        effectiveFrom: '2017-01-30',
+        effectiveTo: '2019-10-01',
+        overrides: {
+          baseFareYen: 410,
+          baseDistanceKm: 1.052,
+          distanceBands: [{ fromKm: 0, stepKm: 0.237, stepFareYen: 80 }],
+          timeBands: [{ fromSeconds: 0, stepSeconds: 90, stepFareYen: 80 }],
+        },
+      },
+      {
+        id: 'jp-tokyo-23-standard@2019-10-01',
+        effectiveFrom: '2019-10-01',
+        effectiveTo: '2022-11-14',
+        overrides: {
+          baseFareYen: 420,
+          baseDistanceKm: 1.052,
+          distanceBands: [{ fromKm: 0, stepKm: 0.233, stepFareYen: 80 }],
+          timeBands: [{ fromSeconds: 0, stepSeconds: 85, stepFareYen: 80 }],
+        },
+      },
+      {
+        id: 'jp-tokyo-23-standard@2022-11-14',
+        effectiveFrom: '2022-11-14',
+        effectiveTo: null,
+        overrides: {},
+      },
+    ],
+  }),
+  regionalTariff({
+    id: 'jp-keihin-standard',
+    region: '関東',
+    block: '京浜交通圏',
+    vehicleClass: 'standard',
+    baseFareYen: 500,
+    baseDistanceKm: 1.2,
+    distanceStepKm: 0.26,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 95,
+    effectiveFrom: '2022-11-14',
+  }),
+  regionalTariff({
+    id: 'jp-niigata-medium',
+    region: '北陸信越',
+    block: '新潟交通圏',
+    vehicleClass: 'medium',
+    baseFareYen: 660,
+    baseDistanceKm: 1.5,
+    distanceStepKm: 0.28,
+    stepFareYen: 90,
+    lowSpeedStepSeconds: 105,
+    effectiveFrom: '2019-10-01',
+  }),
+  regionalTariff({
+    id: 'jp-nagoya-medium',
+    region: '中部',
+    block: '名古屋交通圏',
+    vehicleClass: 'medium',
+    baseFareYen: 500,
+    baseDistanceKm: 1.1,
+    distanceStepKm: 0.25,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 90,
+    effectiveFrom: '2023-08-01',
+  }),
+  regionalTariff({
+    id: 'jp-nagoya-small',
+    region: '中部',
+    block: '名古屋交通圏',
+    vehicleClass: 'small',
+    baseFareYen: 500,
+    baseDistanceKm: 1.2,
+    distanceStepKm: 0.27,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 100,
+    effectiveFrom: '2023-08-01',
+  }),
+  regionalTariff({
+    id: 'jp-osaka-medium',
+    region: '近畿',
+    block: '大阪市域',
+    vehicleClass: 'medium',
+    baseFareYen: 600,
+    baseDistanceKm: 1.3,
+    distanceStepKm: 0.26,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 95,
+    effectiveFrom: '2023-11-01',
+  }),
+  regionalTariff({
+    id: 'jp-osaka-small',
+    region: '近畿',
+    block: '大阪市域',
+    vehicleClass: 'small',
+    baseFareYen: 600,
+    baseDistanceKm: 1.3,
+    distanceStepKm: 0.28,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 100,
+    effectiveFrom: '2023-11-01',
+  }),
+  regionalTariff({
+    id: 'jp-kyoto-medium',
+    region: '近畿',
+    block: '京都市域',
+    vehicleClass: 'medium',
+    baseFareYen: 500,
+    baseDistanceKm: 1.0,
+    distanceStepKm: 0.25,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 90,
+    effectiveFrom: '2023-06-01',
+  }),
+  regionalTariff({
+    id: 'jp-kyoto-small',
+    region: '近畿',
+    block: '京都市域',
+    vehicleClass: 'small',
+    baseFareYen: 500,
+    baseDistanceKm: 1.0,
+    distanceStepKm: 0.27,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 100,
+    effectiveFrom: '2023-06-01',
+  }),
+  regionalTariff({
+    id: 'jp-kobe-medium',
+    region: '近畿',
+    block: '神戸市域',
+    vehicleClass: 'medium',
+    baseFareYen: 600,
+    baseDistanceKm: 1.3,
+    distanceStepKm: 0.26,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 95,
+    effectiveFrom: '2023-11-01',
+  }),
+  regionalTariff({
+    id: 'jp-kobe-small',
+    region: '近畿',
+    block: '神戸市域',
+    vehicleClass: 'small',
+    baseFareYen: 600,
+    baseDistanceKm: 1.3,
+    distanceStepKm: 0.28,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 100,
+    effectiveFrom: '2023-11-01',
+  }),
+  regionalTariff({
+    id: 'jp-hiroshima-medium',
+    region: '中国',
+    block: '広島交通圏',
+    vehicleClass: 'medium',
+    baseFareYen: 600,
+    baseDistanceKm: 1.2,
+    distanceStepKm: 0.26,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 100,
+    effectiveFrom: '2023-10-01',
+  }),
+  regionalTariff({
+    id: 'jp-takamatsu-medium',
+    region: '四国',
+    block: '高松交通圏',
+    vehicleClass: 'medium',
+    baseFareYen: 680,
+    baseDistanceKm: 1.5,
+    distanceStepKm: 0.258,
+    stepFareYen: 90,
+    lowSpeedStepSeconds: 100,
+    effectiveFrom: '2019-10-01',
+  }),
+  regionalTariff({
+    id: 'jp-fukuoka-medium',
+    region: '九州',
+    block: '福岡交通圏',
+    vehicleClass: 'medium',
+    baseFareYen: 700,
+    baseDistanceKm: 1.6,
+    distanceStepKm: 0.27,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 100,
+    effectiveFrom: '2024-03-01',
+  }),
+  regionalTariff({
+    id: 'jp-fukuoka-small',
+    region: '九州',
+    block: '福岡交通圏',
+    vehicleClass: 'small',
+    baseFareYen: 680,
+    baseDistanceKm: 1.6,
+    distanceStepKm: 0.3,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 110,
+    effectiveFrom: '2024-03-01',
+  }),
+  regionalTariff({
+    id: 'jp-okinawa-small',
+    region: '沖縄',
+    block: '沖縄本島',
+    vehicleClass: 'small',
+    baseFareYen: 600,
+    baseDistanceKm: 1.6,
+    distanceStepKm: 0.335,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 120,
+    effectiveFrom: '2023-12-01',
+  }),
+  regionalTariff({
+    id: 'jp-okinawa-medium',
+    region: '沖縄',
+    block: '沖縄本島',
+    vehicleClass: 'medium',
+    baseFareYen: 620,
+    baseDistanceKm: 1.6,
+    distanceStepKm: 0.31,
+    stepFareYen: 100,
+    lowSpeedStepSeconds: 110,
+    effectiveFrom: '2023-12-01',
+  }),
+];
@@ -0,0 +1,170 @@
+import { documentPath, FileSystem } from './fileSystem';
+import { LocationSample } from './pipeline';
+
+// Rough conversion from HDOP to a horizontal accuracy in meters, assuming ~5 m user range error.
+const HDOP_TO_METERS = 5;
+const KNOTS_TO_MPS = 0.514444;
+
+export type TraceFormat = 'gpx' | 'nmea';
+
+export type ImportedTrace = {
+  fileName: string;
+  format: TraceFormat;
+  samples: LocationSample[];
+};
+
+export function detectTraceFormat(fileName: string): TraceFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.gpx')) return 'gpx';
+  if (lower.endsWith('.nmea') || lower.endsWith('.nmea.txt')) return 'nmea';
+  return null;
+}
+
+function readTag(body: string, tag: string): string | null {
+  const match = new RegExp(`<(?:\\w+:)?${tag}>([^<]*)</(?:\\w+:)?${tag}>`).exec(body);
+  return match ? match[1]!.trim() : null;
+}
+
+function readAttribute(attributes: string, name: string): number {
+  const match = new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`).exec(attributes);
+  return match ? Number(match[1]) : Number.NaN;
+}
+
+function toOptionalNumber(value: string | null): number | null {
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function sortAndDedupe(samples: LocationSample[]): LocationSample[] {
+  const sorted = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+  return sorted.filter((sample, index) => index === 0 || sample.timestamp !== sorted[index - 1]!.timestamp);
+}
+
+// Reads <trkpt> elements. Points without a <time> cannot be played back and are skipped.
+export function parseGpx(text: string): LocationSample[] {
+  const samples: LocationSample[] = [];
+  const pointPattern = /<trkpt\b([^>]*)>([\s\S]*?)<\/trkpt>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pointPattern.exec(text)) !== null) {
+    const attributes = match[1]!;
+    const body = match[2]!;
+    const latitude = readAttribute(attributes, 'lat');
+    const longitude = readAttribute(attributes, 'lon');
+    const time = readTag(body, 'time');
+    const timestamp = time ? Date.parse(time) : Number.NaN;
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || !Number.isFinite(timestamp)) {
+      continue;
+    }
+
+    const hdop = toOptionalNumber(readTag(body, 'hdop'));
+    samples.push({
+      timestamp,
+      latitude,
+      longitude,
+      speedMps: toOptionalNumber(readTag(body, 'speed')),
+      accuracyMeters:
+        toOptionalNumber(readTag(body, 'accuracy')) ?? (hdop === null ? null : hdop * HDOP_TO_METERS),
+      altitudeMeters: toOptionalNumber(readTag(body, 'ele')),
+    });
+  }
+
+  return sortAndDedupe(samples);
+}
+
+function hasValidChecksum(sentence: string): boolean {
+  const star = sentence.indexOf('*');
+  if (star < 0) return true;
+  const expected = parseInt(sentence.slice(star + 1, star + 3), 16);
+  let checksum = 0;
+  for (let i = 1; i < star; i += 1) {
+    checksum ^= sentence.charCodeAt(i);
+  }
+  return checksum === expected;
+}
+
+function parseNmeaCoordinate(value: string, hemisphere: string, degreeDigits: number): number {
+  if (value.length <= degreeDigits) return Number.NaN;
+  const degrees = Number(value.slice(0, degreeDigits));
+  const minutes = Number(value.slice(degreeDigits));
+  const decimal = degrees + minutes / 60;
+  return hemisphere === 'S' || hemisphere === 'W' ? -decimal : decimal;
+}
+
+function parseNmeaTimestamp(time: string, date: string): number {
+  if (time.length < 6 || date.length !== 6) return Number.NaN;
+  const day = Number(date.slice(0, 2));
+  const month = Number(date.slice(2, 4));
+  const yy = Number(date.slice(4, 6));
+  const year = yy >= 80 ? 1900 + yy : 2000 + yy;
+  const h = Number(time.slice(0, 2));
+  const m = Number(time.slice(2, 4));
+  const s = Number(time.slice(4));
+  return Date.UTC(year, month - 1, day, h, m, 0) + Math.round(s * 1000);
+}
+
+// Positions and speed come from RMC sentences; GGA sentences with the same time add HDOP and altitude.
+export function parseNmea(text: string): LocationSample[] {
+  const hdopByTime = new Map<string, number>();
+  const altitudeByTime = new Map<string, number>();
+  const rmcSentences: string[][] = [];
+
+  text.split(/\r?\n/).forEach((line) => {
+    const sentence = line.trim();
+    if (!sentence.startsWith('$') || !hasValidChecksum(sentence)) return;
+    const fields = sentence.split('*')[0]!.split(',');
+    const type = fields[0]!.slice(3);
+
+    if (type === 'GGA') {
+      const hdop = Number(fields[8]);
+      const altitude = Number(fields[9]);
+      if (fields[1] && Number.isFinite(hdop)) hdopByTime.set(fields[1], hdop);
+      if (fields[1] && fields[9] && Number.isFinite(altitude)) altitudeByTime.set(fields[1], altitude);
+    } else if (type === 'RMC' && fields[2] === 'A') {
+      rmcSentences.push(fields);
+    }
+  });
+
+  const samples: LocationSample[] = [];
+  rmcSentences.forEach((fields) => {
+    const time = fields[1] ?? '';
+    const timestamp = parseNmeaTimestamp(time, fields[9] ?? '');
+    const latitude = parseNmeaCoordinate(fields[3] ?? '', fields[4] ?? '', 2);
+    const longitude = parseNmeaCoordinate(fields[5] ?? '', fields[6] ?? '', 3);
+    if (!Number.isFinite(timestamp) || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      return;
+    }
+
+    const knots = Number(fields[7]);
+    const hdop = hdopByTime.get(time);
+    samples.push({
+      timestamp,
+      latitude,
+      longitude,
+      speedMps: Number.isFinite(knots) && fields[7] !== '' ? knots * KNOTS_TO_MPS : null,
+      accuracyMeters: hdop === undefined ? null : hdop * HDOP_TO_METERS,
+      altitudeMeters: altitudeByTime.get(time) ?? null,
+    });
+  });
+
+  return sortAndDedupe(samples);
+}
+
+export async function listImportableTraceFiles(): Promise<string[]> {
+  try {
+    const names = await FileSystem.readDirectoryAsync(documentPath(''));
+    return names.filter((name) => detectTraceFormat(name) !== null).sort();
+  } catch {
+    return [];
+  }
+}
+
+export async function importTraceFile(fileName: string): Promise<ImportedTrace | null> {
+  const format = detectTraceFormat(fileName);
+  if (!format) return null;
+
+  const raw = await FileSystem.readAsStringAsync(documentPath(fileName));
+  const samples = format === 'gpx' ? parseGpx(raw) : parseNmea(raw);
+  return { fileName, format, samples };
+}
@@ -0,0 +1,74 @@
+import { LocationSample } from './pipeline';
+
+// Playback feeds samples on a timer so the meter sees them at the trace's own pace
+// (divided by the speed multiplier). A multiplier of Infinity plays as fast as possible.
+const FAST_BATCH_SIZE = 50;
+
+export const PLAYBACK_SPEEDS = [1, 10, 60, Number.POSITIVE_INFINITY];
+
+export type TracePlayer = {
+  stop: () => void;
+  setSpeedMultiplier: (multiplier: number) => void;
+};
+
+export function formatPlaybackSpeed(multiplier: number): string {
+  return Number.isFinite(multiplier) ? `${multiplier}x` : '最速';
+}
+
+export function startTracePlayer(params: {
+  samples: LocationSample[];
+  speedMultiplier: number;
+  onSample: (sample: LocationSample, index: number) => void;
+  onComplete: () => void;
+}): TracePlayer {
+  const { samples, onSample, onComplete } = params;
+  let speedMultiplier = params.speedMultiplier;
+  let nextIndex = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const schedule = () => {
+    if (stopped) return;
+    if (nextIndex >= samples.length) {
+      stopped = true;
+      onComplete();
+      return;
+    }
+
+    const previous = samples[nextIndex - 1];
+    const next = samples[nextIndex]!;
+    const delayMs =
+      !previous || !Number.isFinite(speedMultiplier)
+        ? 0
+        : Math.max(0, next.timestamp - previous.timestamp) / speedMultiplier;
+
+    timer = setTimeout(() => {
+      timer = null;
+      const batchSize = Number.isFinite(speedMultiplier) ? 1 : FAST_BATCH_SIZE;
+      for (let i = 0; i < batchSize && nextIndex < samples.length && !stopped; i += 1) {
+        onSample(samples[nextIndex]!, nextIndex);
+        nextIndex += 1;
+      }
+      schedule();
+    }, delayMs);
+  };
+
+  schedule();
+
+  return {
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+    setSpeedMultiplier: (multiplier) => {
+      speedMultiplier = multiplier;
+      // Reschedule so a long wait at the old speed does not hold up the new one.
+      if (timer && !stopped) {
+        clearTimeout(timer);
+        timer = null;
+        schedule();
+      }
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { distanceKmBetween } from './geo';
+import { LatLng } from './types';
+
+// Each stored ride keeps at most this many points so the history file stays bounded.
+const MAX_TRACK_POINTS = 500;
+const MIN_POINT_SPACING_KM = 0.005;
+const MAX_POINT_INTERVAL_MS = 30_000;
+
+export type TrackPoint = LatLng & {
+  atMs: number;
+  speedKmh: number;
+  accuracyMeters: number | null;
+};
+
+// Drops every other interior point; the first and last points always survive.
+function thinTrack(track: TrackPoint[]): TrackPoint[] {
+  return track.filter((_, index) => index === 0 || index === track.length - 1 || index % 2 === 0);
+}
+
+export function appendTrackPoint(track: TrackPoint[], point: TrackPoint): TrackPoint[] {
+  const first = track[0];
+  const last = track[track.length - 1];
+  if (!first || !last) return [point];
+
+  if (
+    distanceKmBetween(last, point) < MIN_POINT_SPACING_KM &&
+    point.atMs - last.atMs < MAX_POINT_INTERVAL_MS
+  ) {
+    return track;
+  }
+
+  // Past half capacity, only take points at the track's average interval so density stays even.
+  const halfCapacity = MAX_TRACK_POINTS / 2;
+  if (track.length >= halfCapacity) {
+    const minIntervalMs = (last.atMs - first.atMs) / halfCapacity;
+    if (point.atMs - last.atMs < minIntervalMs) return track;
+  }
+
+  const next = [...track, point];
+  return next.length > MAX_TRACK_POINTS ? thinTrack(next) : next;
+}
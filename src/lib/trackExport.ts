@@ -0,0 +1,80 @@
+import { DriveHistoryItem } from './history';
+
+const GPX_EXTENSION_NAMESPACE = 'urn:taximeter-simulator:gpx:1';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function ridesWithTrack(items: DriveHistoryItem[]): DriveHistoryItem[] {
+  return items.filter((item) => (item.track?.length ?? 0) > 0);
+}
+
+// GPX 1.1 with one <trk> per ride. Speed (m/s) and accuracy (m) go in a private extension namespace.
+export function buildGpx(items: DriveHistoryItem[]): string {
+  const tracks = ridesWithTrack(items).map((item) => {
+    const points = (item.track ?? []).map(
+      (point) =>
+        `      <trkpt lat="${point.latitude}" lon="${point.longitude}">\n` +
+        `        <time>${new Date(point.atMs).toISOString()}</time>\n` +
+        `        <extensions>\n` +
+        `          <tsim:speed>${(point.speedKmh / 3.6).toFixed(2)}</tsim:speed>\n` +
+        (point.accuracyMeters === null
+          ? ''
+          : `          <tsim:accuracy>${point.accuracyMeters.toFixed(1)}</tsim:accuracy>\n`) +
+        `        </extensions>\n` +
+        `      </trkpt>`
+    );
+    return [
+      '  <trk>',
+      `    <name>${escapeXml(item.id)}</name>`,
+      `    <desc>${escapeXml(`${item.presetId} / ${item.distanceKm.toFixed(3)}km / ${item.fareYen}JPY`)}</desc>`,
+      '    <trkseg>',
+      ...points,
+      '    </trkseg>',
+      '  </trk>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="taximeter-simulator" xmlns="http://www.topografix.com/GPX/1/1" xmlns:tsim="${GPX_EXTENSION_NAMESPACE}">`,
+    ...tracks,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+// A FeatureCollection of LineStrings. Per-point times, speeds and accuracies are parallel arrays
+// in the properties, following the common `coordTimes` convention. A LineString needs at least
+// two positions, so a ride with a single recorded point is exported as a Point.
+export function buildGeoJson(items: DriveHistoryItem[]): string {
+  const features = ridesWithTrack(items).map((item) => {
+    const track = item.track ?? [];
+    const coordinates = track.map((point) => [point.longitude, point.latitude]);
+    return {
+      type: 'Feature',
+      geometry:
+        coordinates.length === 1
+          ? { type: 'Point', coordinates: coordinates[0] }
+          : { type: 'LineString', coordinates },
+      properties: {
+        id: item.id,
+        presetId: item.presetId,
+        startedAt: new Date(item.startedAtMs).toISOString(),
+        finishedAt: new Date(item.finishedAtMs).toISOString(),
+        distanceKm: item.distanceKm,
+        fareYen: item.fareYen,
+        coordTimes: track.map((point) => new Date(point.atMs).toISOString()),
+        speedsKmh: track.map((point) => point.speedKmh),
+        accuraciesMeters: track.map((point) => point.accuracyMeters),
+      },
+    };
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}